@@ -0,0 +1,362 @@
+/**
+ * Expandable action menu
+ * Child actions that fan out from an item (usually the special button)
+ * in a radial arc or a vertical stack
+ */
+
+import React, { useEffect, useRef } from 'react';
+import {
+  AccessibilityInfo,
+  Animated,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  findNodeHandle,
+} from 'react-native';
+import type { NavItemIcon, NavbarPosition } from './DynamicNavbar';
+import type { NavbarThemeTokens } from './theme';
+import { renderIcon } from './icons';
+import { useMenuTransition } from './useMenuTransition';
+import { NavbarPhaseAnimation, animatePhase } from './animation';
+
+/**
+ * Child action of an expandable item
+ */
+export interface NavItemAction {
+  id: string;
+  label?: string;
+  icon: NavItemIcon;
+  onPress: () => void;
+  /** Screen reader label (default: label, then the action id) */
+  accessibilityLabel?: string;
+  /** Button background colour (default: theme special button colour) */
+  color?: string;
+}
+
+/**
+ * Action menu layout
+ * - 'radial': actions fan out in an arc around the item
+ * - 'stack': actions stack in a column away from the bar, with labels beside them
+ */
+export type NavItemActionLayout = 'radial' | 'stack';
+
+/**
+ * Window frame of the item the menu expands from
+ */
+export interface ActionMenuAnchor {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ActionMenuProps {
+  visible: boolean;
+  actions: NavItemAction[];
+  anchor: ActionMenuAnchor | null;
+  /** Icon of the expanded item, drawn rotated into an "×" above the backdrop; omitted for custom-rendered items */
+  anchorIcon?: NavItemIcon;
+  anchorIsActive: boolean;
+  anchorIsSpecial: boolean;
+  /** Phase for the open and close transition and the icon rotation */
+  animation: NavbarPhaseAnimation;
+  layout: NavItemActionLayout;
+  position: NavbarPosition;
+  direction: 'ltr' | 'rtl';
+  /** Dim the screen behind the actions (default true) */
+  backdrop: boolean;
+  /** Distance from the item to the actions in radial layout */
+  radius: number;
+  themeTokens: NavbarThemeTokens;
+  reduceMotion: boolean;
+  onClose: () => void;
+}
+
+const ACTION_SIZE = 48;
+// Distance between stacked actions
+const STACK_SPACING = 60;
+// Total spread of the radial arc, in degrees
+const ARC_SPREAD = 120;
+
+// Direction pointing away from the bar, in degrees (screen coordinates, y down)
+const AWAY_ANGLE: Record<NavbarPosition, number> = {
+  bottom: -90,
+  top: 90,
+  left: 0,
+  right: 180,
+};
+
+/**
+ * Offset of each action from the anchor center
+ */
+const getActionOffsets = (
+  count: number,
+  layout: NavItemActionLayout,
+  position: NavbarPosition,
+  direction: 'ltr' | 'rtl',
+  radius: number
+): { x: number; y: number }[] => {
+  const baseAngle = AWAY_ANGLE[position];
+
+  if (layout === 'stack') {
+    const unitX = Math.round(Math.cos((baseAngle * Math.PI) / 180));
+    const unitY = Math.round(Math.sin((baseAngle * Math.PI) / 180));
+    return Array.from({ length: count }, (_, index) => {
+      const distance = STACK_SPACING * (index + 1);
+      return { x: unitX * distance, y: unitY * distance };
+    });
+  }
+
+  // Fan out across the arc, first action on the leading side
+  const step = count > 1 ? ARC_SPREAD / (count - 1) : 0;
+  const start = count > 1 ? baseAngle - ARC_SPREAD / 2 : baseAngle;
+  return Array.from({ length: count }, (_, index) => {
+    const order = direction === 'rtl' ? count - 1 - index : index;
+    const angle = ((start + step * order) * Math.PI) / 180;
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+};
+
+export const ActionMenu: React.FC<ActionMenuProps> = ({
+  visible,
+  actions,
+  anchor,
+  anchorIcon,
+  anchorIsActive,
+  anchorIsSpecial,
+  animation,
+  layout,
+  position,
+  direction,
+  backdrop,
+  radius,
+  themeTokens,
+  reduceMotion,
+  onClose,
+}) => {
+  const { openAnim, isMounted } = useMenuTransition(visible, animation, reduceMotion);
+  const rotateAnim = useRef(new Animated.Value(0)).current;
+  const firstActionRef = useRef<View>(null);
+  const { colors, typography, background } = themeTokens;
+
+  useEffect(() => {
+    if (reduceMotion) {
+      rotateAnim.setValue(visible ? 1 : 0);
+      return;
+    }
+    animatePhase(rotateAnim, visible ? 1 : 0, animation).start();
+  }, [visible, reduceMotion, animation, rotateAnim]);
+
+  // Move screen reader focus into the menu once it is open
+  useEffect(() => {
+    if (!visible || !isMounted) return;
+    const node = findNodeHandle(firstActionRef.current);
+    if (node) {
+      AccessibilityInfo.setAccessibilityFocus(node);
+    }
+  }, [visible, isMounted]);
+
+  if (!isMounted || !anchor) {
+    return null;
+  }
+
+  const centerX = anchor.x + anchor.width / 2;
+  const centerY = anchor.y + anchor.height / 2;
+  const offsets = getActionOffsets(actions.length, layout, position, direction, radius);
+  const isStack = layout === 'stack';
+  // Stacked labels sit on the trailing side of the buttons
+  const labelOnLeft = direction === 'rtl' || position === 'right';
+
+  return (
+    <Modal transparent visible={isMounted} animationType="none" onRequestClose={onClose}>
+      <Pressable
+        style={styles.backdrop}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close actions"
+      >
+        {backdrop && (
+          <Animated.View style={[styles.backdropTint, { opacity: openAnim }]} />
+        )}
+      </Pressable>
+
+      <View accessibilityViewIsModal pointerEvents="box-none" style={StyleSheet.absoluteFill}>
+        {actions.map((action, index) => {
+          const offset = offsets[index];
+          const translateX = openAnim.interpolate({
+            inputRange: [0, 1],
+            outputRange: [0, offset.x],
+          });
+          const translateY = openAnim.interpolate({
+            inputRange: [0, 1],
+            outputRange: [0, offset.y],
+          });
+          const scale = openAnim.interpolate({
+            inputRange: [0, 1],
+            outputRange: [0.4, 1],
+          });
+
+          return (
+            <Animated.View
+              key={action.id}
+              style={[
+                styles.action,
+                {
+                  left: centerX - ACTION_SIZE / 2,
+                  top: centerY - ACTION_SIZE / 2,
+                  opacity: openAnim,
+                  transform: [{ translateX }, { translateY }, { scale }],
+                },
+              ]}
+            >
+              <Pressable
+                ref={index === 0 ? firstActionRef : undefined}
+                onPress={() => {
+                  action.onPress();
+                  onClose();
+                }}
+                accessibilityRole="menuitem"
+                accessibilityLabel={action.accessibilityLabel ?? action.label ?? action.id}
+                style={({ pressed }) => [
+                  styles.actionButton,
+                  { backgroundColor: action.color ?? colors.specialButton },
+                  pressed && styles.actionButtonPressed,
+                ]}
+              >
+                {renderIcon(action.icon, false, true, colors)}
+              </Pressable>
+
+              {action.label && (
+                <View
+                  pointerEvents="none"
+                  style={[
+                    isStack
+                      ? [styles.stackLabel, labelOnLeft ? styles.stackLabelLeft : styles.stackLabelRight]
+                      : styles.radialLabel,
+                    isStack && { backgroundColor: background.blurFallback },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      typography.label,
+                      styles.labelText,
+                      { color: isStack ? colors.labelActive : colors.specialLabel },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {action.label}
+                  </Text>
+                </View>
+              )}
+            </Animated.View>
+          );
+        })}
+
+        {/* The expanded item, above the backdrop; tapping it again closes the menu */}
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close actions"
+          style={[
+            styles.anchor,
+            { left: anchor.x, top: anchor.y, width: anchor.width, height: anchor.height },
+          ]}
+        >
+          {anchorIcon && (
+            <Animated.View
+              style={[
+                styles.anchorIcon,
+                anchorIsSpecial && [styles.anchorIconSpecial, { backgroundColor: colors.specialButton }],
+                {
+                  transform: [{
+                    rotate: rotateAnim.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: ['0deg', '45deg'],
+                    }),
+                  }],
+                },
+              ]}
+            >
+              {renderIcon(anchorIcon, anchorIsActive, anchorIsSpecial, colors)}
+            </Animated.View>
+          )}
+        </Pressable>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  backdropTint: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  action: {
+    position: 'absolute',
+    width: ACTION_SIZE,
+    height: ACTION_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButton: {
+    width: ACTION_SIZE,
+    height: ACTION_SIZE,
+    borderRadius: ACTION_SIZE / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  actionButtonPressed: {
+    opacity: 0.8,
+  },
+  anchor: {
+    position: 'absolute',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Matches the navbar's icon container so the icon lines up with the item below
+  anchorIcon: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  anchorIconSpecial: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginBottom: 4,
+  },
+  radialLabel: {
+    position: 'absolute',
+    top: ACTION_SIZE + 4,
+    left: (ACTION_SIZE - 96) / 2,
+    width: 96,
+    alignItems: 'center',
+  },
+  stackLabel: {
+    position: 'absolute',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  stackLabelRight: {
+    left: ACTION_SIZE + 12,
+  },
+  stackLabelLeft: {
+    right: ACTION_SIZE + 12,
+  },
+  labelText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
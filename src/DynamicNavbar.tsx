@@ -1,53 +1,89 @@
 /**
  * Dynamic Navigation Bar Component
  * Fully reusable, config-driven navbar with injected icons and actions
- * Supports top/bottom positioning with glassy transparent design
+ * Supports top/bottom bars and left/right rails with glassy transparent design
  * Includes glassmorphism theme option (crystal/frosted glass effect)
  * Features animated glow effects and smooth transitions
  */
 
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  Image,
   ImageSourcePropType,
-  TextStyle,
-  Platform,
+  LayoutChangeEvent,
+  LayoutRectangle,
+  TextProps,
   ViewStyle,
   Animated,
   Pressable,
-  Easing,
+  useWindowDimensions,
+  AccessibilityInfo,
+  findNodeHandle,
 } from 'react-native';
+import {
+  NavbarColorSchemePreference,
+  NavbarTheme,
+  NavbarThemeColors,
+  NavbarThemeTokens,
+} from './theme';
+import { useColorCrossfade, useColorTransition, useNavbarTheme } from './NavbarThemeProvider';
+import { useReduceMotion } from './useReduceMotion';
+import { NavItemMatcher, resolveActiveItemId } from './routeMatching';
+import { MORE_ICON, NavbarIconFamily, renderIcon } from './icons';
+import { MoreMenu } from './MoreMenu';
+import { NavbarStorageAdapter, useActiveItemState } from './activeItemState';
+import {
+  NavbarHapticEvent,
+  NavbarHapticsAdapter,
+  NavbarHapticsOptions,
+  triggerHaptic,
+} from './haptics';
+import {
+  ActionMenu,
+  ActionMenuAnchor,
+  NavItemAction,
+  NavItemActionLayout,
+} from './ActionMenu';
+import {
+  NavbarIndicatorShape,
+  NavbarIndicatorSpring,
+  NavItemLayout,
+  SlidingIndicator,
+} from './SlidingIndicator';
+import {
+  NavbarScrollController,
+  NavbarScrollOptions,
+  useScrollHide,
+} from './useNavbarScrollHandler';
+import { NavbarInsets, useSafeAreaContextInsets } from './safeArea';
+import { NavbarKeyboardMode, useKeyboardHide } from './useNavbarKeyboard';
+import { useNavbarValidation } from './validateProps';
+import {
+  NavItemVisibilityCondition,
+  NavbarVisibilityContext,
+  applyItemVisibility,
+  useItemPresence,
+} from './itemVisibility';
+import {
+  NavbarAnimation,
+  NavbarAnimationConfig,
+  NavbarPhaseAnimation,
+  animatePhase,
+  resolveNavbarAnimation,
+} from './animation';
 
-// Default colors
-const DEFAULT_COLORS = {
-  gold: '#FF9500',
-  goldText: '#FFB340',
-  midnightBlue: '#1C1C1E',
-  textSecondary: '#B8B8C8',
-};
-
-// Default typography
-const DEFAULT_TYPOGRAPHY: { ui: { small: TextStyle } } = {
-  ui: {
-    small: {
-      fontSize: 12,
-      fontWeight: '400',
-      letterSpacing: 0,
-      lineHeight: 18,
-    },
-  },
-};
+export type { NavbarTheme } from './theme';
 
 /**
  * Vector icon configuration (from icon families)
  */
 export interface VectorIcon {
   type: 'vector';
-  family: 'Ionicons' | 'MaterialIcons' | 'FontAwesome' | 'Feather' | 'MaterialCommunityIcons';
+  /** Built-in react-native-vector-icons family or one added with registerIconFamily */
+  family: NavbarIconFamily;
   name: string;
   size?: number;
 }
@@ -60,7 +96,10 @@ export interface ImageIcon {
   source: ImageSourcePropType;
   width?: number;
   height?: number;
+  /** Tint for the inactive state (and the active state unless activeTintColor is set) */
   tintColor?: string;
+  /** Tint for the active state */
+  activeTintColor?: string;
 }
 
 /**
@@ -77,230 +116,650 @@ export interface SvgIcon {
 }
 
 /**
- * Icon can be vector, image, or SVG
+ * Props passed to a custom icon's render function
+ */
+export interface CustomIconRenderProps {
+  isActive: boolean;
+  isSpecial: boolean;
+  /** Theme icon colour for the current state */
+  color: string;
+  size: number;
+  /** Active progress (0 → 1), native-driver only; undefined outside the bar (e.g. in the More menu) */
+  animatedProgress?: Animated.Value;
+}
+
+/**
+ * Custom icon rendered by a function (e.g. Lottie animations or avatar images)
  */
-export type NavItemIcon = VectorIcon | ImageIcon | SvgIcon;
+export interface CustomIcon {
+  type: 'custom';
+  render: (props: CustomIconRenderProps) => React.ReactNode;
+  size?: number;
+}
 
 /**
- * Theme variants for the navbar
- * - 'default': Original dark translucent style
- * - 'glass': Glassmorphism/frosted crystal effect (like Canva)
+ * Icon can be vector, image, SVG or custom
  */
-export type NavbarTheme = 'default' | 'glass';
+export type NavItemIcon = VectorIcon | ImageIcon | SvgIcon | CustomIcon;
+
+/**
+ * State passed to renderItem, renderIcon and renderLabel
+ */
+export interface NavItemRenderProps {
+  item: NavItem;
+  isActive: boolean;
+  isSpecial: boolean;
+  isPressed: boolean;
+  /** Active progress (0 → 1). Runs on the native driver: use it for transforms and opacity */
+  animatedProgress: Animated.Value;
+  colors: NavbarThemeColors;
+}
+
+/**
+ * Custom renderer for an item, its icon or its label
+ */
+export type NavItemRenderer = (props: NavItemRenderProps) => React.ReactNode;
+
+/**
+ * Render overrides; per-item renderers take precedence over navbar-level ones
+ */
+export interface NavItemRenderers {
+  /** Replace the item's content (icon, label, badge and indicator); pressing and accessibility are kept */
+  renderItem?: NavItemRenderer;
+  /** Replace the icon inside the icon container (glow and badge are kept) */
+  renderIcon?: NavItemRenderer;
+  /** Replace the label */
+  renderLabel?: NavItemRenderer;
+}
+
+/**
+ * Badge configuration for a nav item
+ * - value: number (count, capped with `max`) or custom string
+ * - dot: render a plain dot instead of a value
+ */
+export interface NavItemBadge {
+  value?: number | string;
+  /** Render a small dot without text */
+  dot?: boolean;
+  /** Counts above this are shown as "max+" (default 99) */
+  max?: number;
+  /** Show the badge when the count is 0 (default false) */
+  showZero?: boolean;
+  /** Badge background colour */
+  color?: string;
+  /** Badge text colour */
+  textColor?: string;
+  /** Pop animation when the value changes (default true) */
+  animated?: boolean;
+  /** Screen reader value, e.g. "3 unread" (default: derived from the value) */
+  accessibilityLabel?: string;
+}
 
 /**
  * Navigation item configuration
  */
-export interface NavItem {
+export interface NavItem extends NavItemRenderers {
   id: string;
   label?: string;
   icon: NavItemIcon;
+  /** Icon shown while active (e.g. filled vs outline), crossfaded from `icon` */
+  activeIcon?: NavItemIcon;
   onPress: () => void;
+  /** Called instead of `onPress` when the item is pressed while already active (e.g. scroll to top) */
+  onReselect?: () => void;
+  onLongPress?: () => void;
+  /** Press duration (ms) before `onLongPress` fires (default 500) */
+  longPressDelay?: number;
+  /** Called on a second tap within 300ms; the first tap still fires `onPress`/`onReselect` */
+  onDoubleTap?: () => void;
+  /** Called when a `disabled` item is pressed, e.g. to explain why it is unavailable */
+  onDisabledPress?: () => void;
   isSpecial?: boolean;
+  /** Child actions that expand from the item on press, instead of calling `onPress` */
+  actions?: NavItemAction[];
+  /** How the actions expand: radial arc or vertical stack (default 'radial') */
+  actionLayout?: NavItemActionLayout;
+  /** Dim the screen while the actions are open (default true) */
+  actionBackdrop?: boolean;
+  /** Distance from the item to the actions in radial layout (default 96) */
+  actionRadius?: number;
+  /** Whether pressing the item makes it active in uncontrolled mode (default: false for special items) */
+  selectable?: boolean;
   visible?: boolean;
+  /** Show the item only when the condition passes for the navbar `context` (roles, flags or a predicate) */
+  visibleWhen?: NavItemVisibilityCondition;
   disabled?: boolean;
+  /** Badge shown on the icon: a count, a custom string or a full badge config */
+  badge?: number | string | NavItemBadge;
+  /** Screen reader label (default: label, then the item id for icon-only items) */
+  accessibilityLabel?: string;
+  /** Screen reader hint describing what happens on press */
+  accessibilityHint?: string;
+  /** Path pattern(s) or predicate used to resolve the active item from `currentPath` */
+  match?: NavItemMatcher | NavItemMatcher[];
+  /** Set to false to skip haptic feedback for this item */
+  haptics?: boolean;
+  /** Overflow priority: higher-priority items stay in the bar, the rest move to "More" (default 0) */
+  priority?: number;
+}
+
+/**
+ * Details passed to `onItemPress`
+ */
+export interface NavItemPressEvent {
+  /** Whether the item was already active when pressed */
+  wasActive: boolean;
 }
 
+/**
+ * When item labels are shown
+ * - 'always': every item
+ * - 'selected': only the active item; the label expands in when it becomes active
+ * - 'never': icons only
+ * - 'auto': 'always' for up to 3 items in the bar, 'selected' for more
+ */
+export type NavbarLabelVisibility = 'always' | 'selected' | 'never' | 'auto';
+
+/**
+ * Navbar placement: horizontal bar (top/bottom) or vertical rail (left/right)
+ */
+export type NavbarPosition = 'top' | 'bottom' | 'left' | 'right';
+
 /**
  * DynamicNavbar component props
  */
-export interface DynamicNavbarProps {
+export interface DynamicNavbarProps extends NavItemRenderers {
   items: NavItem[];
-  position?: 'top' | 'bottom';
+  position?: NavbarPosition;
+  /** Height of a top/bottom bar */
   height?: number;
+  /** Active item id; omit to let the navbar track it (uncontrolled) */
   activeItemId?: string;
+  /** Initially active item in uncontrolled mode */
+  defaultActiveItemId?: string;
+  /** Called when a press selects a different item (controlled and uncontrolled) */
+  onActiveItemChange?: (id: string, prevId: string | undefined) => void;
+  /** Storage key for remembering the last active item in uncontrolled mode */
+  storageKey?: string;
+  /** Storage used with `storageKey` (default: in-memory) */
+  storage?: NavbarStorageAdapter;
+  /** Called for every item press, before the item's own handler */
+  onItemPress?: (item: NavItem, event: NavItemPressEvent) => void;
+  /** Haptic feedback: an adapter function, or an adapter with feedback types per interaction */
+  haptics?: NavbarHapticsAdapter | NavbarHapticsOptions;
+  /** Current route path; the active item is the one whose `match` fits best (longest match wins) */
+  currentPath?: string;
+  /** Show labels below icons (same as labelVisibility 'always' / 'never') */
   showLabels?: boolean;
+  /** When labels are shown (default: 'always', or 'never' with showLabels={false}) */
+  labelVisibility?: NavbarLabelVisibility;
+  /** Label placement in top/bottom bars; 'auto' puts it beside the icon when items are wide (default 'below') */
+  labelPosition?: 'below' | 'beside' | 'auto';
+  /** Maximum label lines before truncating (default 1) */
+  labelNumberOfLines?: number;
+  /** Where to truncate long labels (default 'tail') */
+  labelEllipsizeMode?: 'head' | 'middle' | 'tail' | 'clip';
+  /** Cap for accessibility font scaling of labels (default 1.5) */
+  labelMaxFontSizeMultiplier?: number;
   backgroundColor?: string;
   borderColor?: string;
   direction?: 'ltr' | 'rtl';
-  /** Theme variant: 'default' or 'glass' (glassmorphism/crystal effect) */
+  /** Theme: 'default', 'glass' (glassmorphism/crystal effect) or a custom theme object */
   theme?: NavbarTheme;
+  /** Colour scheme: 'light', 'dark' or 'system' (default: from NavbarThemeProvider, else 'dark') */
+  colorScheme?: NavbarColorSchemePreference;
   /** Custom blur component for glass theme (e.g. BlurView from @react-native-community/blur) */
   BlurComponent?: React.ComponentType<any>;
   /** Blur intensity for glass theme (0-100, default 20) */
   blurIntensity?: number;
   /** Blur type for glass theme when using BlurComponent */
   blurType?: 'light' | 'dark' | 'chromeMaterial' | 'material' | 'thickMaterial' | 'thinMaterial' | 'ultraThinMaterial' | 'regular';
+  /** Press, glow and active change animations: preset name or custom config (default 'apple') */
+  animation?: NavbarAnimation;
   /** Enable glow effect on press (default: true for glass theme) */
   enableGlow?: boolean;
   /** Glow colour (default: white with opacity) */
   glowColor?: string;
   /** Active indicator colour */
   activeColor?: string;
+  /**
+   * Maximum number of items in the bar (including "More").
+   * Extra items collapse into a "More" menu; 'auto' fits as many as the width allows.
+   */
+  maxVisibleItems?: number | 'auto';
+  /** Minimum width per item in 'auto' mode (default 64) */
+  minItemWidth?: number;
+  /** Customise the "More" item (label, icon, accessibility) */
+  moreItem?: Partial<Pick<NavItem, 'label' | 'icon' | 'accessibilityLabel' | 'accessibilityHint'>>;
+  /**
+   * Indicator mode
+   * - 'item': each item fades its own indicator in place (default)
+   * - 'sliding': a single indicator slides between items
+   */
+  indicatorMode?: 'item' | 'sliding';
+  /** Sliding indicator shape: 'dot', 'underline', 'pill' (behind icon) or 'highlight' (whole tab) */
+  indicatorShape?: NavbarIndicatorShape;
+  /** Spring physics for the sliding indicator */
+  indicatorSpring?: NavbarIndicatorSpring;
+  /** Scroll offset to hide the navbar on scroll down and reveal it on scroll up */
+  scrollY?: Animated.Value;
+  /** Hide-on-scroll options when using `scrollY` */
+  scrollOptions?: NavbarScrollOptions;
+  /** Controller from useNavbarScrollHandler() (provides scrollY, options and show()/hide()) */
+  scrollController?: NavbarScrollController;
+  /** Move a bottom bar out of the way while the keyboard is open */
+  hideOnKeyboard?: boolean;
+  /** Keyboard behaviour with hideOnKeyboard: 'hide', 'behind' or 'above' the keyboard (default 'hide') */
+  keyboardMode?: NavbarKeyboardMode;
+  /** Safe area insets (default: from react-native-safe-area-context when installed) */
+  insets?: Partial<NavbarInsets>;
+  /** Add the safe area inset for `position` on top of `height` (default true) */
+  respectSafeArea?: boolean;
+  /**
+   * Layout variant
+   * - 'docked': full-width bar attached to the screen edge (default)
+   * - 'floating': detached rounded capsule
+   */
+  layout?: 'docked' | 'floating';
+  /** Floating layout options */
+  floatingOptions?: NavbarFloatingOptions;
+  /** Width of a left/right rail (default 80, or 200 with labels beside icons) */
+  railWidth?: number;
+  /** Rail label placement: under the icon or beside it (default 'below') */
+  railLabelPosition?: 'below' | 'beside';
+  /** Content above the rail items (e.g. logo) */
+  railHeader?: React.ReactNode;
+  /** Content below the rail items (e.g. settings/avatar) */
+  railFooter?: React.ReactNode;
+  /** Switch a top/bottom bar to a rail when the window is at least this wide */
+  railBreakpoint?: number;
+  /** Rail side used by railBreakpoint (default: 'left', or 'right' for RTL) */
+  railSide?: 'left' | 'right';
+  /** Roles, feature flags and other state that item `visibleWhen` conditions are evaluated against */
+  context?: NavbarVisibilityContext;
 }
 
 /**
- * Get icon component based on family (for vector icons)
+ * Floating layout options
  */
-const getIconComponent = (family: VectorIcon['family']) => {
-  switch (family) {
-    case 'MaterialIcons':
-      return require('react-native-vector-icons/MaterialIcons').default;
-    case 'FontAwesome':
-      return require('react-native-vector-icons/FontAwesome').default;
-    case 'Feather':
-      return require('react-native-vector-icons/Feather').default;
-    case 'MaterialCommunityIcons':
-      return require('react-native-vector-icons/MaterialCommunityIcons').default;
-    case 'Ionicons':
-    default:
-      return require('react-native-vector-icons/Ionicons').default;
+export interface NavbarFloatingOptions {
+  /** Distance from the left and right screen edges (default 16) */
+  horizontalMargin?: number;
+  /** Distance from the screen edge the bar sits on - bottom or top (default 16) */
+  edgeMargin?: number;
+  /** Corner radius (default: half the height, a full capsule) */
+  borderRadius?: number;
+  /** Maximum width, e.g. for tablets (default 560) */
+  maxWidth?: number;
+}
+
+// Id of the generated "More" item
+const MORE_ITEM_ID = '__dynamic-navbar-more__';
+
+// Max time (ms) between two taps for onDoubleTap
+const DOUBLE_TAP_DELAY = 300;
+
+// Minimum item width for labelPosition 'auto' to place labels beside icons
+const BESIDE_LABEL_MIN_ITEM_WIDTH = 140;
+
+// Upper bound for a rail item's height while it animates in or out
+const RAIL_ITEM_MAX_HEIGHT = 160;
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+/**
+ * Normalise the badge shorthand (number | string) into a badge config
+ */
+const normalizeBadge = (
+  badge: NavItem['badge']
+): NavItemBadge | undefined => {
+  if (badge === undefined || badge === null) return undefined;
+  if (typeof badge === 'number' || typeof badge === 'string') {
+    return { value: badge };
   }
+  return badge;
 };
 
 /**
- * Render icon based on type (vector, image, or SVG)
+ * Get the text shown inside a badge, or null when the badge is hidden.
+ * Dot badges return an empty string.
  */
-const renderIcon = (
-  icon: NavItemIcon,
-  isActive: boolean,
-  isSpecial: boolean
-) => {
-  // SVG icon (from imported SVG files)
-  if (icon.type === 'svg') {
-    const SvgComponent = icon.component;
-    const iconSize = icon.width || icon.height || 24;
-    const iconColor = icon.color || (isActive ? DEFAULT_COLORS.goldText : DEFAULT_COLORS.textSecondary);
-    const finalColor = isSpecial ? DEFAULT_COLORS.midnightBlue : iconColor;
-    const finalSize = isSpecial ? iconSize + 4 : iconSize;
+const getBadgeText = (badge: NavItemBadge | undefined): string | null => {
+  if (!badge) return null;
+  if (badge.dot) return '';
 
-    return (
-      <SvgComponent
-        width={finalSize}
-        height={finalSize}
-        color={finalColor}
-        fill={finalColor}
-      />
-    );
+  if (typeof badge.value === 'number') {
+    if (badge.value <= 0 && !badge.showZero) return null;
+    const max = badge.max ?? 99;
+    return badge.value > max ? `${max}+` : String(badge.value);
   }
 
-  // Image/PNG/JPEG icon
-  if (icon.type === 'image') {
-    const imageSize = icon.width || icon.height || 24;
-    const imageStyle: any = {
-      width: icon.width || imageSize,
-      height: icon.height || imageSize,
-    };
+  if (typeof badge.value === 'string' && badge.value.length > 0) {
+    return badge.value;
+  }
 
-    if (icon.tintColor) {
-      imageStyle.tintColor = icon.tintColor;
+  return null;
+};
+
+/**
+ * Get the screen reader announcement for a badge, e.g. "3 unread"
+ */
+const getBadgeAccessibilityText = (
+  badge: NavItemBadge | undefined,
+  text: string | null
+): string | undefined => {
+  if (!badge || text === null) return undefined;
+  if (badge.accessibilityLabel) return badge.accessibilityLabel;
+  if (badge.dot) return 'new';
+  return typeof badge.value === 'number' ? `${text} unread` : text;
+};
+
+/**
+ * Badge rendered on top of the icon, with a pop animation on value change
+ */
+interface NavBadgeProps {
+  badge: NavItemBadge;
+  text: string;
+  isSpecial: boolean;
+  direction: 'ltr' | 'rtl';
+  colors: NavbarThemeColors;
+  reduceMotion: boolean;
+  /** Phase used for the pop */
+  animation: NavbarPhaseAnimation;
+}
+
+const NavBadge: React.FC<NavBadgeProps> = ({
+  badge,
+  text,
+  isSpecial,
+  direction,
+  colors,
+  reduceMotion,
+  animation,
+}) => {
+  const isAnimated = badge.animated !== false && !reduceMotion;
+  const popAnim = useRef(new Animated.Value(isAnimated ? 0 : 1)).current;
+  const isDot = badge.dot === true;
+
+  // Pop in on mount and whenever the displayed value changes
+  useEffect(() => {
+    if (!isAnimated) {
+      popAnim.setValue(1);
+      return;
     }
 
-    return (
-      <Image
-        source={icon.source}
-        style={imageStyle}
-        resizeMode="contain"
-      />
-    );
-  }
+    popAnim.setValue(0);
+    animatePhase(popAnim, 1, animation).start();
+  }, [text, isAnimated, popAnim, animation]);
+
+  const popScale = popAnim.interpolate({
+    inputRange: [0, 0.6, 1],
+    outputRange: [0.4, 1.2, 1],
+    extrapolate: 'clamp',
+  });
 
-  // Vector icon (from icon families)
-  const IconComponent = getIconComponent(icon.family);
-  const iconSize = icon.size || 24;
-  const iconColor = isActive ? DEFAULT_COLORS.goldText : DEFAULT_COLORS.textSecondary;
+  // Mirror the badge corner for RTL layouts
+  const sideStyle: ViewStyle = isSpecial
+    ? (isDot ? styles.badgeDotSpecialOffset : styles.badgeSpecialOffset)
+    : (isDot ? styles.badgeDotOffset : styles.badgeOffset);
+  const placement: ViewStyle = direction === 'rtl'
+    ? { top: sideStyle.top, left: sideStyle.right }
+    : { top: sideStyle.top, right: sideStyle.right };
 
   return (
-    <IconComponent
-      name={icon.name}
-      size={isSpecial ? iconSize + 4 : iconSize}
-      color={isSpecial ? DEFAULT_COLORS.midnightBlue : iconColor}
-    />
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        isDot ? styles.badgeDot : styles.badge,
+        placement,
+        {
+          backgroundColor: badge.color ?? colors.badge,
+          transform: [{ scale: popScale }],
+        },
+      ]}
+    >
+      {!isDot && (
+        <Text
+          style={[styles.badgeText, { color: badge.textColor ?? colors.badgeText }]}
+          numberOfLines={1}
+        >
+          {text}
+        </Text>
+      )}
+    </Animated.View>
   );
 };
 
+/**
+ * Theme colours that fade on a theme change (e.g. light/dark), shared by every item
+ */
+interface NavItemAnimatedColors {
+  label: Animated.AnimatedInterpolation<string>;
+  labelActive: Animated.AnimatedInterpolation<string>;
+  specialLabel: Animated.AnimatedInterpolation<string>;
+  specialButton: Animated.AnimatedInterpolation<string>;
+  indicator: Animated.AnimatedInterpolation<string>;
+}
+
 /**
  * Animated Nav Item with glow effect
  */
 interface AnimatedNavItemProps {
   item: NavItem;
   isActive: boolean;
-  showLabels: boolean;
+  labelVisibility: Exclude<NavbarLabelVisibility, 'auto'>;
+  labelTextProps: Pick<TextProps, 'numberOfLines' | 'ellipsizeMode' | 'maxFontSizeMultiplier'>;
   enableGlow: boolean;
   glowColor: string;
-  activeColor: string;
-  theme: NavbarTheme;
+  animatedColors: NavItemAnimatedColors;
+  themeTokens: NavbarThemeTokens;
+  direction: 'ltr' | 'rtl';
+  reduceMotion: boolean;
+  showIndicator: boolean;
+  onItemLayout?: (id: string, layout: NavItemLayout) => void;
+  onPress: (item: NavItem, anchor?: ActionMenuAnchor) => void;
+  onHaptic: (item: NavItem, event: NavbarHapticEvent) => void;
+  renderers: NavItemRenderers;
+  animation: NavbarAnimationConfig;
+  /** Whether the item's action menu is open */
+  isExpanded: boolean;
+  isVertical: boolean;
+  labelBeside: boolean;
+  /** Appear/disappear progress while the item animates in or out */
+  presence?: Animated.Value;
+  /** The item was removed and is animating out */
+  isLeaving?: boolean;
 }
 
 const AnimatedNavItem: React.FC<AnimatedNavItemProps> = ({
   item,
   isActive,
-  showLabels,
+  labelVisibility,
+  labelTextProps,
   enableGlow,
   glowColor,
-  activeColor,
-  theme,
+  animatedColors,
+  themeTokens,
+  direction,
+  reduceMotion,
+  showIndicator,
+  onItemLayout,
+  onPress,
+  onHaptic,
+  renderers,
+  animation,
+  isExpanded,
+  isVertical,
+  labelBeside,
+  presence,
+  isLeaving = false,
 }) => {
+  const { colors, typography } = themeTokens;
+  const iconFade = useColorCrossfade(colors, `${colors.icon}|${colors.iconActive}|${colors.specialIcon}`);
+  const layouts = useRef<{ tab?: LayoutRectangle; content?: LayoutRectangle; icon?: LayoutRectangle }>({});
   const glowAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const activeAnim = useRef(new Animated.Value(isActive ? 1 : 0)).current;
+  const expandAnim = useRef(new Animated.Value(isExpanded ? 1 : 0)).current;
+  // Label reveal for labelVisibility 'selected' (animates layout, so JS-driven)
+  const labelAnim = useRef(new Animated.Value(isActive ? 1 : 0)).current;
+  const [labelSize, setLabelSize] = useState<{ width: number; height: number } | null>(null);
+  const lastTapTime = useRef(0);
+  const tabRef = useRef<View>(null);
+  const iconRef = useRef<View>(null);
+  const wasExpanded = useRef(isExpanded);
+  const [isPressed, setIsPressed] = useState(false);
 
-  // Animate active state transitions with Apple's cubic-bezier curve
+  // Animate active state transitions with the configured active change phase
   useEffect(() => {
-    Animated.timing(activeAnim, {
-      toValue: isActive ? 1 : 0,
-      duration: 400,
-      easing: Easing.bezier(0.16, 1, 0.3, 1), // Apple's signature curve
-      useNativeDriver: true,
-    }).start();
-  }, [isActive, activeAnim]);
+    if (reduceMotion) {
+      activeAnim.setValue(isActive ? 1 : 0);
+      return;
+    }
+
+    animatePhase(activeAnim, isActive ? 1 : 0, animation.activeChange).start();
+  }, [isActive, activeAnim, reduceMotion, animation.activeChange]);
+
+  useEffect(() => {
+    if (labelVisibility !== 'selected') return;
+
+    if (reduceMotion) {
+      labelAnim.setValue(isActive ? 1 : 0);
+      return;
+    }
+
+    animatePhase(labelAnim, isActive ? 1 : 0, animation.activeChange, false).start();
+  }, [isActive, labelAnim, labelVisibility, reduceMotion, animation.activeChange]);
+
+  // Rotate the icon ("+" into "×") while the action menu is open
+  useEffect(() => {
+    if (reduceMotion) {
+      expandAnim.setValue(isExpanded ? 1 : 0);
+    } else {
+      animatePhase(expandAnim, isExpanded ? 1 : 0, animation.activeChange).start();
+    }
+
+    // Return screen reader focus to the item when its menu closes
+    if (wasExpanded.current && !isExpanded) {
+      const node = findNodeHandle(tabRef.current);
+      if (node) {
+        AccessibilityInfo.setAccessibilityFocus(node);
+      }
+    }
+    wasExpanded.current = isExpanded;
+  }, [isExpanded, expandAnim, reduceMotion, animation.activeChange]);
 
   const handlePressIn = useCallback(() => {
-    if (!enableGlow || item.disabled) return;
+    setIsPressed(true);
+    if (!enableGlow || item.disabled || reduceMotion) return;
 
-    // Scale down slightly and start glow with Apple's easing
+    // Scale down slightly and start glow
     Animated.parallel([
-      Animated.timing(scaleAnim, {
-        toValue: 0.92,
-        duration: 200,
-        easing: Easing.bezier(0.16, 1, 0.3, 1),
-        useNativeDriver: true,
-      }),
-      Animated.timing(glowAnim, {
-        toValue: 1,
-        duration: 150,
-        easing: Easing.bezier(0.16, 1, 0.3, 1),
-        useNativeDriver: true,
-      }),
+      animatePhase(scaleAnim, animation.pressScale, animation.pressIn),
+      animatePhase(glowAnim, 1, animation.glow.in),
     ]).start();
-  }, [enableGlow, item.disabled, scaleAnim, glowAnim]);
+  }, [enableGlow, item.disabled, reduceMotion, scaleAnim, glowAnim, animation]);
 
   const handlePressOut = useCallback(() => {
-    if (!enableGlow || item.disabled) return;
+    setIsPressed(false);
+    if (!enableGlow || item.disabled || reduceMotion) return;
 
-    // Scale back and fade glow with Apple's easing
+    // Scale back and fade glow
     Animated.parallel([
-      Animated.timing(scaleAnim, {
-        toValue: 1,
-        duration: 400,
-        easing: Easing.bezier(0.16, 1, 0.3, 1),
-        useNativeDriver: true,
-      }),
+      animatePhase(scaleAnim, 1, animation.pressOut),
       Animated.sequence([
         // Brief hold at peak glow
-        Animated.delay(50),
+        Animated.delay(animation.glow.hold),
         // Fade out with spread
-        Animated.timing(glowAnim, {
-          toValue: 0,
-          duration: 300,
-          easing: Easing.bezier(0.16, 1, 0.3, 1),
-          useNativeDriver: true,
-        }),
+        animatePhase(glowAnim, 0, animation.glow.out),
       ]),
     ]).start();
-  }, [enableGlow, item.disabled, scaleAnim, glowAnim]);
+  }, [enableGlow, item.disabled, reduceMotion, scaleAnim, glowAnim, animation]);
+
+  // Report the item and icon position (in container coordinates) for the sliding indicator
+  const handleLayout = useCallback(
+    (part: 'tab' | 'content' | 'icon') => (event: LayoutChangeEvent) => {
+      layouts.current[part] = event.nativeEvent.layout;
+      const { tab, content, icon } = layouts.current;
+      if (!onItemLayout || !tab || !content || !icon) return;
+
+      onItemLayout(item.id, {
+        x: tab.x,
+        y: tab.y,
+        width: tab.width,
+        height: tab.height,
+        iconCenterX: tab.x + content.x + icon.x + icon.width / 2,
+        iconCenterY: tab.y + content.y + icon.y + icon.height / 2,
+      });
+    },
+    [item.id, onItemLayout]
+  );
 
   const isDisabled = item.disabled === true;
 
+  const handlePress = useCallback(() => {
+    if (item.disabled) {
+      onHaptic(item, 'disabled');
+      item.onDisabledPress?.();
+      return;
+    }
+
+    // A second tap inside the window is a double tap, not another press
+    if (item.onDoubleTap) {
+      const now = Date.now();
+      if (now - lastTapTime.current < DOUBLE_TAP_DELAY) {
+        lastTapTime.current = 0;
+        item.onDoubleTap();
+        return;
+      }
+      lastTapTime.current = now;
+    }
+
+    // Expandable items open their menu from the icon's position on screen
+    if (item.actions?.length && iconRef.current) {
+      iconRef.current.measureInWindow((x, y, width, height) => {
+        onPress(item, { x, y, width, height });
+      });
+      return;
+    }
+
+    onPress(item);
+  }, [item, onPress, onHaptic]);
+
+  const handleLongPress = useCallback(() => {
+    if (!item.onLongPress) return;
+    onHaptic(item, 'longPress');
+    item.onLongPress();
+  }, [item, onHaptic]);
+
+  const badge = normalizeBadge(item.badge);
+  const badgeText = getBadgeText(badge);
+
+  const renderItem = item.renderItem ?? renderers.renderItem;
+  const renderCustomIcon = item.renderIcon ?? renderers.renderIcon;
+  const renderLabel = item.renderLabel ?? renderers.renderLabel;
+  const renderProps: NavItemRenderProps = {
+    item,
+    isActive,
+    isSpecial: item.isSpecial || false,
+    isPressed,
+    animatedProgress: activeAnim,
+    colors,
+  };
+
+  // Icon-only items still need a spoken name
+  const accessibilityLabel = item.accessibilityLabel ?? item.label ?? item.id;
+  const badgeAccessibilityText = getBadgeAccessibilityText(badge, badgeText);
+
   // Interpolate glow spread
   const glowScale = glowAnim.interpolate({
     inputRange: [0, 0.5, 1],
-    outputRange: [0.5, 1.2, 1.5],
+    outputRange: animation.glow.scale,
   });
 
   const glowOpacity = glowAnim.interpolate({
     inputRange: [0, 0.3, 1],
-    outputRange: [0, 0.6, 0.8],
+    outputRange: animation.glow.opacity,
   });
 
   // Active indicator scale
@@ -314,237 +773,735 @@ const AnimatedNavItem: React.FC<AnimatedNavItemProps> = ({
     outputRange: [0, 1],
   });
 
+  const renderStateIcon = (stateIcon: NavItemIcon, iconColors: NavbarThemeColors) => (
+    renderIcon(stateIcon, isActive, item.isSpecial || false, iconColors, activeAnim)
+  );
+
+  // Crossfade between the inactive and active icons, with a slight grow on the active one
+  const inactiveIconOpacity = activeAnim.interpolate({
+    inputRange: [0, 1],
+    outputRange: [1, 0],
+  });
+
+  const activeIconScale = activeAnim.interpolate({
+    inputRange: [0, 1],
+    outputRange: [0.8, 1],
+  });
+
+  const previousIconOpacity = iconFade.progress.interpolate({
+    inputRange: [0, 1],
+    outputRange: [1, 0],
+  });
+
+  const label = renderLabel
+    ? renderLabel(renderProps)
+    : item.label
+      ? (
+        // The scale runs on the native driver and the colour on the JS driver, so they need separate views
+        <Animated.View
+          style={{
+            transform: [{
+              scale: activeAnim.interpolate({
+                inputRange: [0, 1],
+                outputRange: [1, 1.05],
+              }),
+            }],
+          }}
+        >
+          <Animated.Text
+            {...labelTextProps}
+            style={[
+              styles.label,
+              typography.label,
+              labelBeside && styles.labelBeside,
+              isActive && typography.labelActive,
+              item.isSpecial && typography.labelSpecial,
+              {
+                color: item.isSpecial
+                  ? animatedColors.specialLabel
+                  : isActive ? animatedColors.labelActive : animatedColors.label,
+              },
+            ]}
+          >
+            {item.label}
+          </Animated.Text>
+        </Animated.View>
+      )
+      : null;
+
+  const renderStateIcons = (iconColors: NavbarThemeColors) => (
+    item.activeIcon ? (
+      <View>
+        <Animated.View style={{ opacity: inactiveIconOpacity }}>
+          {renderStateIcon(item.icon, iconColors)}
+        </Animated.View>
+        <Animated.View
+          style={[
+            styles.activeIconLayer,
+            { opacity: activeAnim, transform: [{ scale: activeIconScale }] },
+          ]}
+        >
+          {renderStateIcon(item.activeIcon, iconColors)}
+        </Animated.View>
+      </View>
+    ) : renderStateIcon(item.icon, iconColors)
+  );
+
+  // Icon colours can't be animated, so a theme change crossfades from the icon in the previous colours
+  const icon = renderCustomIcon ? renderCustomIcon(renderProps) : (
+    <>
+      <Animated.View style={{ opacity: iconFade.progress }}>
+        {renderStateIcons(colors)}
+      </Animated.View>
+      {iconFade.previous && (
+        <Animated.View style={[styles.activeIconLayer, { opacity: previousIconOpacity }]}>
+          {renderStateIcons(iconFade.previous)}
+        </Animated.View>
+      )}
+    </>
+  );
+
+  // Bars grow the item's flex share; rails (flex 0) grow its height.
+  // Clamped so a spring preset's overshoot can't produce negative sizes.
+  const shown = presence?.interpolate({ inputRange: [0, 1], outputRange: [0, 1], extrapolate: 'clamp' });
+  const presenceOpacity = shown && (isDisabled ? Animated.multiply(shown, 0.4) : shown);
+  const presenceStyle = shown && (isVertical
+    ? {
+      opacity: presenceOpacity,
+      maxHeight: shown.interpolate({ inputRange: [0, 1], outputRange: [0, RAIL_ITEM_MAX_HEIGHT] }),
+      overflow: 'hidden' as const,
+    }
+    : {
+      opacity: presenceOpacity,
+      flex: shown.interpolate({ inputRange: [0, 1], outputRange: [0, item.isSpecial ? 1.2 : 1] }),
+      transform: [{ scale: shown.interpolate({ inputRange: [0, 1], outputRange: [0.6, 1] }) }],
+    });
+
   return (
-    <Pressable
+    <AnimatedPressable
+      ref={tabRef}
       onPressIn={handlePressIn}
       onPressOut={handlePressOut}
-      onPress={isDisabled ? undefined : item.onPress}
-      disabled={isDisabled}
+      onPress={handlePress}
+      onLongPress={isDisabled || !item.onLongPress ? undefined : handleLongPress}
+      delayLongPress={item.longPressDelay}
+      // Disabled items stay pressable when they explain themselves via onDisabledPress
+      disabled={isLeaving || (isDisabled && !item.onDisabledPress)}
+      accessibilityElementsHidden={isLeaving}
+      importantForAccessibility={isLeaving ? 'no-hide-descendants' : 'auto'}
+      accessibilityRole="tab"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint={item.accessibilityHint}
+      accessibilityState={{
+        selected: isActive,
+        disabled: isDisabled,
+        expanded: item.actions?.length ? isExpanded : undefined,
+      }}
+      accessibilityValue={badgeAccessibilityText ? { text: badgeAccessibilityText } : undefined}
+      onLayout={onItemLayout ? handleLayout('tab') : undefined}
       style={[
         styles.tab,
         item.isSpecial && styles.tabSpecial,
+        isVertical && styles.tabRail,
+        labelBeside && styles.tabBeside,
         isDisabled && styles.tabDisabled,
+        presenceStyle,
       ]}
     >
-      <Animated.View
-        style={[
-          styles.tabContent,
-          { transform: [{ scale: scaleAnim }] },
-        ]}
-      >
-        {/* Icon container with glow */}
-        <View style={styles.iconWrapper}>
-          {/* Glow effect layer - positioned behind icon */}
-          {enableGlow && !item.isSpecial && (
+      {renderItem ? (
+        <Animated.View
+          onLayout={onItemLayout ? handleLayout('content') : undefined}
+          style={[styles.tabContent, { transform: [{ scale: scaleAnim }] }]}
+        >
+          {/* Measured like the icon so the sliding indicator and action menu can anchor to it */}
+          <View
+            ref={iconRef}
+            collapsable={false}
+            onLayout={onItemLayout ? handleLayout('icon') : undefined}
+          >
+            {renderItem(renderProps)}
+          </View>
+        </Animated.View>
+      ) : (
+        <Animated.View
+          onLayout={onItemLayout ? handleLayout('content') : undefined}
+          style={[
+            styles.tabContent,
+            labelBeside && [
+              styles.tabContentBeside,
+              !isVertical && styles.tabContentBesideBar,
+              direction === 'rtl' && styles.tabContentBesideRtl,
+            ],
+            { transform: [{ scale: scaleAnim }] },
+          ]}
+        >
+          {/* Icon container with glow */}
+          <View
+            ref={iconRef}
+            collapsable={false}
+            style={styles.iconWrapper}
+            onLayout={onItemLayout ? handleLayout('icon') : undefined}
+          >
+            {/* Glow effect layer - positioned behind icon */}
+            {enableGlow && !item.isSpecial && (
+              <Animated.View
+                style={[
+                  styles.glowEffect,
+                  {
+                    backgroundColor: glowColor,
+                    opacity: glowOpacity,
+                    transform: [{ scale: glowScale }],
+                  },
+                ]}
+              />
+            )}
+
             <Animated.View
               style={[
-                styles.glowEffect,
-                {
-                  backgroundColor: glowColor,
-                  opacity: glowOpacity,
-                  transform: [{ scale: glowScale }],
-                },
+                styles.iconContainer,
+                item.isSpecial && [styles.iconContainerSpecial, { backgroundColor: animatedColors.specialButton }],
               ]}
-            />
-          )}
+            >
+              {item.actions?.length ? (
+                <Animated.View
+                  style={{
+                    transform: [{
+                      rotate: expandAnim.interpolate({
+                        inputRange: [0, 1],
+                        outputRange: ['0deg', '45deg'],
+                      }),
+                    }],
+                  }}
+                >
+                  {icon}
+                </Animated.View>
+              ) : icon}
+            </Animated.View>
 
-          <View
-            style={[
-              styles.iconContainer,
-              item.isSpecial && styles.iconContainerSpecial,
-            ]}
-          >
-            {renderIcon(item.icon, isActive, item.isSpecial || false)}
+            {/* Badge - anchored to the icon wrapper corner */}
+            {badge && badgeText !== null && (
+              <NavBadge
+                badge={badge}
+                text={badgeText}
+                isSpecial={item.isSpecial || false}
+                direction={direction}
+                colors={colors}
+                reduceMotion={reduceMotion}
+                animation={animation.activeChange}
+              />
+            )}
           </View>
-        </View>
 
-        {/* Active indicator */}
-        {!item.isSpecial && (
-          <Animated.View
-            style={[
-              styles.activeIndicator,
-              theme === 'glass' && styles.activeIndicatorGlass,
-              {
-                backgroundColor: activeColor,
-                opacity: activeIndicatorOpacity,
-                transform: [{ scale: activeIndicatorScale }],
-              },
-            ]}
-          />
-        )}
+          {labelVisibility === 'always' && label}
+          {labelVisibility === 'selected' && label && (
+            <>
+              {/* Hidden copy, measured so the visible label can expand to its natural size */}
+              <View
+                pointerEvents="none"
+                accessibilityElementsHidden
+                importantForAccessibility="no-hide-descendants"
+                style={styles.labelMeasure}
+                onLayout={event => {
+                  const { width, height } = event.nativeEvent.layout;
+                  if (labelSize?.width !== width || labelSize?.height !== height) {
+                    setLabelSize({ width, height });
+                  }
+                }}
+              >
+                {label}
+              </View>
+              <Animated.View
+                style={[
+                  styles.labelReveal,
+                  {
+                    opacity: labelAnim,
+                    [labelBeside ? 'width' : 'height']: labelAnim.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: [0, labelBeside ? labelSize?.width ?? 0 : labelSize?.height ?? 0],
+                      // Spring phases overshoot; a size must never go negative
+                      extrapolate: 'clamp',
+                    }),
+                  },
+                ]}
+              >
+                {/* Fixed size so the text doesn't reflow while the container grows */}
+                <View style={labelSize ?? undefined}>{label}</View>
+              </Animated.View>
+            </>
+          )}
 
-        {showLabels && item.label && (
-          <Animated.Text
-            style={[
-              styles.label,
-              isActive && styles.labelActive,
-              item.isSpecial && styles.labelSpecial,
-              {
-                transform: [{
-                  scale: activeAnim.interpolate({
-                    inputRange: [0, 1],
-                    outputRange: [1, 1.05],
-                  }),
-                }],
-              },
-            ]}
-          >
-            {item.label}
-          </Animated.Text>
-        )}
+          {/* Active indicator - below label or icon (hidden when the navbar draws a sliding one) */}
+          {showIndicator && !item.isSpecial && (
+            <Animated.View
+              style={[
+                styles.activeIndicator,
+                themeTokens.base === 'glass' && styles.activeIndicatorGlass,
+                (labelVisibility === 'never' || !label) && styles.activeIndicatorNoLabel,
+                {
+                  opacity: activeIndicatorOpacity,
+                  transform: [{ scale: activeIndicatorScale }],
+                },
+              ]}
+            >
+              {/* Separate view: the colour animates on the JS driver */}
+              <Animated.View style={[styles.activeIndicatorColor, { backgroundColor: animatedColors.indicator }]} />
+            </Animated.View>
+          )}
+        </Animated.View>
+      )}
+    </AnimatedPressable>
+  );
+};
 
-        {/* Active indicator - below label or icon */}
-        {!item.isSpecial && (
-          <Animated.View
-            style={[
-              styles.activeIndicator,
-              theme === 'glass' && styles.activeIndicatorGlass,
-              !(showLabels && item.label) && styles.activeIndicatorNoLabel,
-              {
-                backgroundColor: activeColor,
-                opacity: activeIndicatorOpacity,
-                transform: [{ scale: activeIndicatorScale }],
-              },
-            ]}
-          />
-        )}
-      </Animated.View>
-    </Pressable>
+/**
+ * Split items into those shown in the bar and those moved to the "More" menu.
+ * Special items are kept first, then higher `priority`, then original order.
+ * Both lists keep the original item order.
+ */
+const splitOverflowItems = (
+  items: NavItem[],
+  limit: number | undefined
+): { barItems: NavItem[]; overflowItems: NavItem[] } => {
+  if (limit === undefined || items.length <= limit) {
+    return { barItems: items, overflowItems: [] };
+  }
+
+  // One slot is taken by the "More" item
+  const slots = Math.max(limit - 1, 1);
+  const kept = new Set(
+    items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => (
+        Number(b.item.isSpecial === true) - Number(a.item.isSpecial === true)
+        || (b.item.priority ?? 0) - (a.item.priority ?? 0)
+        || a.index - b.index
+      ))
+      .slice(0, slots)
+      .map(({ item }) => item.id)
   );
+
+  return {
+    barItems: items.filter(item => kept.has(item.id)),
+    overflowItems: items.filter(item => !kept.has(item.id)),
+  };
 };
 
 /**
  * Get theme-specific container styles
  */
 const getThemeStyles = (
-  theme: NavbarTheme,
-  position: 'top' | 'bottom'
+  tokens: NavbarThemeTokens,
+  position: NavbarPosition,
+  isFloating: boolean
 ): { container: ViewStyle; overlay: ViewStyle; border: ViewStyle } => {
-  if (theme === 'glass') {
-    // Liquid Glass theme (Apple's professional-grade glassmorphism)
-    // 4-Layer Stack: Base Material + Specular Edge + Physical Shadow + Variable Border
-    return {
-      container: {
-        // Layer 1: Base Material - darker for better contrast
-        backgroundColor: Platform.select({
-          ios: 'rgba(30, 30, 40, 0.5)',
-          android: 'rgba(30, 30, 40, 0.55)',
-        }),
-        // Layer 3: Physical Shadow - soft, diffused, long (Apple standard)
-        ...(position === 'top'
-          ? {
-            shadowColor: '#000',
-            shadowOffset: { width: 0, height: 12 },
-            shadowOpacity: 0.08, // Much softer diffusion
-            shadowRadius: 40, // Larger spread
-            elevation: 24,
-          }
-          : {
-            shadowColor: '#000',
-            shadowOffset: { width: 0, height: -12 },
-            shadowOpacity: 0.08,
-            shadowRadius: 40,
-            elevation: 24,
-          }),
-      },
-      overlay: {
-        // Enhanced saturation simulation layer
-        backgroundColor: Platform.select({
-          ios: 'rgba(255, 255, 255, 0.1)',
-          android: 'rgba(255, 255, 255, 0.08)',
-        }),
-        // Layer 4: Variable Border - bright on top (light catch), subtle on bottom
-        borderTopWidth: position === 'bottom' ? 1.5 : 0,
-        borderTopColor: 'rgba(255, 255, 255, 0.4)', // Bright specular edge
-        borderBottomWidth: position === 'top' ? 1 : 0,
-        borderBottomColor: 'rgba(255, 255, 255, 0.1)', // Subtle bottom
-        borderLeftWidth: 0.5,
-        borderLeftColor: 'rgba(255, 255, 255, 0.15)',
-        borderRightWidth: 0.5,
-        borderRightColor: 'rgba(255, 255, 255, 0.15)',
-      },
-      border: {
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-      },
-    };
-  }
+  const { background, shadow, border } = tokens;
+  const isRail = !isFloating && (position === 'left' || position === 'right');
+  // A floating bar is detached from both edges, so both borders are drawn
+  const showTopBorder = isFloating || position === 'bottom';
+  const showBottomBorder = isFloating || position === 'top';
+
+  // Shadow falls away from the content: down for a top bar, up for a bottom bar,
+  // sideways for rails. Floating bars cast their shadow downwards.
+  const shadowOffset = isRail
+    ? { width: position === 'left' ? shadow.offset : -shadow.offset, height: 0 }
+    : { width: 0, height: isFloating || position === 'top' ? shadow.offset : -shadow.offset };
+
+  // Rails draw the bright light-catching edge on the side facing the content
+  const edgeBorder: ViewStyle = isRail
+    ? {
+      borderTopWidth: 0,
+      borderBottomWidth: 0,
+      borderLeftWidth: position === 'right' ? border.topWidth : 0,
+      borderLeftColor: border.topColor,
+      borderRightWidth: position === 'left' ? border.topWidth : 0,
+      borderRightColor: border.topColor,
+    }
+    : {};
 
-  // Default theme
   return {
     container: {
-      backgroundColor: 'rgba(10, 7, 25, 0.65)',
-      ...(position === 'top'
-        ? {
-          shadowColor: 'rgba(0, 0, 0, 0.4)',
-          shadowOffset: { width: 0, height: 4 },
-          shadowOpacity: 0.3,
-          shadowRadius: 16,
-          elevation: 12,
-        }
-        : {
-          shadowColor: 'rgba(0, 0, 0, 0.4)',
-          shadowOffset: { width: 0, height: -4 },
-          shadowOpacity: 0.3,
-          shadowRadius: 16,
-          elevation: 12,
-        }),
+      backgroundColor: background.base,
+      shadowColor: shadow.color,
+      shadowOffset,
+      shadowOpacity: shadow.opacity,
+      shadowRadius: shadow.radius,
+      elevation: shadow.elevation,
     },
     overlay: {
-      backgroundColor: 'rgba(255, 255, 255, 0.03)',
+      backgroundColor: background.overlay,
+      // Variable border - only on the edges that are not attached to the screen
+      borderTopWidth: showTopBorder ? border.topWidth : 0,
+      borderTopColor: border.topColor,
+      borderBottomWidth: showBottomBorder ? border.bottomWidth : 0,
+      borderBottomColor: border.bottomColor,
+      borderLeftWidth: border.sideWidth,
+      borderLeftColor: border.sideColor,
+      borderRightWidth: border.sideWidth,
+      borderRightColor: border.sideColor,
+      ...edgeBorder,
+    },
+    border: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
     },
-    border: {},
   };
 };
 
 export const DynamicNavbar: React.FC<DynamicNavbarProps> = ({
-  items,
-  position = 'bottom',
+  items: itemsProp,
+  position: requestedPosition = 'bottom',
   height = 70,
   activeItemId,
+  renderItem,
+  renderIcon: renderItemIcon,
+  renderLabel,
+  haptics,
+  defaultActiveItemId,
+  onActiveItemChange,
+  storageKey,
+  storage,
+  onItemPress,
+  currentPath,
   showLabels = true,
+  labelVisibility,
+  labelPosition = 'below',
+  labelNumberOfLines = 1,
+  labelEllipsizeMode = 'tail',
+  labelMaxFontSizeMultiplier = 1.5,
   backgroundColor,
   borderColor,
   direction = 'ltr',
-  theme = 'default',
+  theme,
+  colorScheme,
   BlurComponent,
   blurIntensity = 20,
   blurType = 'light',
   enableGlow,
+  animation,
   glowColor,
   activeColor,
+  maxVisibleItems,
+  minItemWidth = 64,
+  moreItem,
+  indicatorMode = 'item',
+  indicatorShape = 'dot',
+  indicatorSpring,
+  scrollY,
+  scrollOptions,
+  scrollController,
+  hideOnKeyboard = false,
+  keyboardMode = 'hide',
+  insets,
+  respectSafeArea = true,
+  layout = 'docked',
+  floatingOptions,
+  railWidth,
+  railLabelPosition = 'below',
+  railHeader,
+  railFooter,
+  railBreakpoint,
+  railSide,
+  context,
 }) => {
-  const displayItems = direction === 'rtl' ? [...items].reverse() : items;
-  const themeStyles = getThemeStyles(theme, position);
+  const isFloating = layout === 'floating';
+  // Hide items whose visibility condition fails for the current context
+  const items = useMemo(() => applyItemVisibility(itemsProp, context), [itemsProp, context]);
+
+  // Switch a horizontal bar to a rail on wide windows (tablets, landscape)
+  const { width: windowWidth } = useWindowDimensions();
+  const isHorizontalRequest = requestedPosition === 'top' || requestedPosition === 'bottom';
+  const position: NavbarPosition = isHorizontalRequest
+    && railBreakpoint !== undefined
+    && windowWidth >= railBreakpoint
+    ? railSide ?? (direction === 'rtl' ? 'right' : 'left')
+    : requestedPosition;
+  const isVertical = position === 'left' || position === 'right';
+  const effectiveRailWidth = railWidth ?? (railLabelPosition === 'beside' ? 200 : 80);
+
+  const [containerLength, setContainerLength] = useState(0);
+  const [itemLayouts, setItemLayouts] = useState<Record<string, NavItemLayout>>({});
+  const isSlidingIndicator = indicatorMode === 'sliding';
+  const [isMoreOpen, setIsMoreOpen] = useState(false);
+  // Item whose action menu is open, with the window frame it expands from
+  const [expanded, setExpanded] = useState<{ item: NavItem; anchor: ActionMenuAnchor } | null>(null);
+  // Keep the last menu rendered while it animates closed
+  const lastExpanded = useRef(expanded);
+  if (expanded) {
+    lastExpanded.current = expanded;
+  }
+
+  // Track the active item ourselves when activeItemId is not provided
+  const isControlled = activeItemId !== undefined;
+  const activeItemState = useActiveItemState({
+    items,
+    isControlled,
+    defaultActiveItemId,
+    onActiveItemChange,
+    storage,
+    storageKey,
+  });
+  const baseActiveItemId = isControlled ? activeItemId : activeItemState.activeItemId;
+
+  // Resolve the active item from the path, falling back to activeItemId
+  const resolvedActiveItemId = currentPath !== undefined
+    ? resolveActiveItemId(items, currentPath) ?? baseActiveItemId
+    : baseActiveItemId;
+
+  // Collapse items that don't fit into the "More" menu
+  const visibleItems = items.filter(item => item.visible !== false);
+  const itemLimit = maxVisibleItems === 'auto'
+    ? (containerLength > 0
+      ? Math.max(Math.floor((containerLength - 16) / minItemWidth), 2)
+      : undefined)
+    : maxVisibleItems;
+  const { barItems, overflowItems } = splitOverflowItems(visibleItems, itemLimit);
+  const hasOverflow = overflowItems.length > 0;
+
+  useEffect(() => {
+    if (!hasOverflow) setIsMoreOpen(false);
+  }, [hasOverflow]);
+
+  const moreNavItem: NavItem | null = hasOverflow
+    ? {
+      id: MORE_ITEM_ID,
+      label: moreItem?.label ?? 'More',
+      icon: moreItem?.icon ?? MORE_ICON,
+      accessibilityLabel: moreItem?.accessibilityLabel,
+      accessibilityHint: moreItem?.accessibilityHint ?? 'Shows more tabs',
+      onPress: () => setIsMoreOpen(open => !open),
+      // Surface hidden badges as a dot on "More"
+      badge: overflowItems.some(item => getBadgeText(normalizeBadge(item.badge)) !== null)
+        ? { dot: true }
+        : undefined,
+    }
+    : null;
+  const isOverflowActive = overflowItems.some(item => item.id === resolvedActiveItemId);
+
+  // Route a press to onReselect when the item is already active, else onPress
+  const handleHaptic = useCallback((item: NavItem, event: NavbarHapticEvent) => {
+    triggerHaptic(haptics, item, event);
+  }, [haptics]);
+
+  const handleItemPress = useCallback((item: NavItem, anchor?: ActionMenuAnchor) => {
+    const wasActive = item.id === resolvedActiveItemId;
+    if (item.id !== MORE_ITEM_ID) {
+      onItemPress?.(item, { wasActive });
+    }
+    handleHaptic(item, item.isSpecial ? 'special' : wasActive ? 'reselect' : 'select');
+
+    if (item.actions?.length && anchor) {
+      setExpanded(current => (current?.item.id === item.id ? null : { item, anchor }));
+      return;
+    }
+
+    if (item.id !== MORE_ITEM_ID) {
+      activeItemState.select(item, resolvedActiveItemId);
+    }
+
+    if (wasActive && item.onReselect) {
+      item.onReselect();
+    } else {
+      item.onPress();
+    }
+  }, [resolvedActiveItemId, onItemPress, handleHaptic, activeItemState.select]);
+
+  const barWithMore = moreNavItem ? [...barItems, moreNavItem] : barItems;
+  // Rails stack top to bottom regardless of direction
+  const displayItems = direction === 'rtl' && !isVertical ? [...barWithMore].reverse() : barWithMore;
+
+  // Labels: 'auto' shows every label for small bars and only the active one for larger bars
+  const requestedLabelVisibility = labelVisibility ?? (showLabels ? 'always' : 'never');
+  const resolvedLabelVisibility = requestedLabelVisibility === 'auto'
+    ? (displayItems.length <= 3 ? 'always' : 'selected')
+    : requestedLabelVisibility;
+  const labelBeside = isVertical
+    ? railLabelPosition === 'beside'
+    : labelPosition === 'beside'
+      || (labelPosition === 'auto' && containerLength / Math.max(displayItems.length, 1) >= BESIDE_LABEL_MIN_ITEM_WIDTH);
+  const labelTextProps = useMemo(() => ({
+    numberOfLines: labelNumberOfLines,
+    ellipsizeMode: labelEllipsizeMode,
+    maxFontSizeMultiplier: labelMaxFontSizeMultiplier,
+  }), [labelNumberOfLines, labelEllipsizeMode, labelMaxFontSizeMultiplier]);
+
+  // Measure the length along the bar for maxVisibleItems="auto" and labelPosition="auto"
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height: layoutHeight } = event.nativeEvent.layout;
+    setContainerLength(isVertical ? layoutHeight : width);
+  }, [isVertical]);
+
+  const closeActions = useCallback(() => setExpanded(null), []);
+  const isExpandedItemActive = lastExpanded.current?.item.id === resolvedActiveItemId;
+  // Custom-rendered items can't be redrawn above the backdrop, so they stay as rendered in the bar
+  const expandedItem = lastExpanded.current?.item;
+  const isExpandedItemCustom = expandedItem !== undefined
+    && (expandedItem.renderItem ?? renderItem ?? expandedItem.renderIcon ?? renderItemIcon) !== undefined;
+
+  const resolvedAnimation = useMemo(() => resolveNavbarAnimation(animation), [animation]);
+
+  const renderers = useMemo<NavItemRenderers>(
+    () => ({ renderItem, renderIcon: renderItemIcon, renderLabel }),
+    [renderItem, renderItemIcon, renderLabel]
+  );
+
+  const handleItemLayout = useCallback((id: string, layout: NavItemLayout) => {
+    setItemLayouts(previous => {
+      const current = previous[id];
+      if (
+        current
+        && current.x === layout.x
+        && current.y === layout.y
+        && current.width === layout.width
+        && current.height === layout.height
+        && current.iconCenterX === layout.iconCenterX
+        && current.iconCenterY === layout.iconCenterY
+      ) {
+        return previous;
+      }
+      return { ...previous, [id]: layout };
+    });
+  }, []);
+
+  // The sliding indicator follows the active bar item ("More" when the active item is hidden)
+  const indicatorItem = isOverflowActive
+    ? moreNavItem
+    : barItems.find(item => item.id === resolvedActiveItemId);
+  const indicatorLayout = indicatorItem && !indicatorItem.isSpecial
+    ? itemLayouts[indicatorItem.id]
+    : undefined;
+  const isFilledIndicator = indicatorShape === 'pill' || indicatorShape === 'highlight';
+  const { tokens: themeTokens } = useNavbarTheme(theme, colorScheme);
+  const reduceMotion = useReduceMotion();
+  // Keep removed items rendered while they animate out. "More" and the items behind it
+  // switch without animating when the overflow split changes (e.g. once the bar is measured)
+  const overflowIds = new Set([MORE_ITEM_ID, ...overflowItems.map(item => item.id)]);
+  const presentItems = useItemPresence(displayItems, overflowIds, resolvedAnimation.activeChange, reduceMotion);
+  const themeStyles = getThemeStyles(themeTokens, position, isFloating);
+
+  // Safe area: the inset for `position` is added on top of the content height,
+  // so the background layers extend under the home indicator / notch
+  const contextInsets = useSafeAreaContextInsets();
+  const hasInsets = respectSafeArea && (insets !== undefined || contextInsets !== null);
+  const safeInsets: NavbarInsets = {
+    top: insets?.top ?? contextInsets?.top ?? 0,
+    bottom: insets?.bottom ?? contextInsets?.bottom ?? 0,
+    left: insets?.left ?? contextInsets?.left ?? 0,
+    right: insets?.right ?? contextInsets?.right ?? 0,
+  };
+  const edgeInset = hasInsets ? safeInsets[position] : 0;
+
+  // Floating bars sit inside a margin; the inset is added to the margin instead of the bar
+  const floatingEdgeMargin = floatingOptions?.edgeMargin ?? 16;
+  const floatingHorizontalMargin = floatingOptions?.horizontalMargin ?? 16;
+  // Thickness across the bar: height for bars, width for rails
+  const thickness = isVertical ? effectiveRailWidth : height;
+  const floatingRadius = floatingOptions?.borderRadius ?? thickness / 2;
+  const barThickness = isFloating ? thickness : thickness + edgeInset;
+  const totalHeight = isFloating ? thickness + floatingEdgeMargin + edgeInset : barThickness;
+
+  const safeAreaStyle: ViewStyle | undefined = hasInsets && !isFloating
+    ? {
+      paddingTop: styles.container.paddingVertical + (position === 'bottom' ? 0 : safeInsets.top),
+      paddingBottom: styles.container.paddingVertical + (position === 'top' ? 0 : safeInsets.bottom),
+      paddingLeft: styles.container.paddingHorizontal + (position === 'right' ? 0 : safeInsets.left),
+      paddingRight: styles.container.paddingHorizontal + (position === 'left' ? 0 : safeInsets.right),
+    }
+    : undefined;
+
+  // Hide on scroll: slide the bar off-screen by its height (including the inset).
+  // Rails stay in place.
+  const { translateY: scrollTranslateY, setVisible } = useScrollHide({
+    scrollY: isVertical ? undefined : scrollController?.scrollY ?? scrollY,
+    options: scrollController?.options ?? scrollOptions ?? {},
+    distance: totalHeight,
+    position: position === 'top' ? 'top' : 'bottom',
+    animation: resolvedAnimation.activeChange,
+    reduceMotion,
+  });
+
+  useEffect(
+    () => (isVertical ? undefined : scrollController?.subscribe(setVisible)),
+    [isVertical, scrollController, setVisible]
+  );
+
+  // Keyboard only affects bars along the bottom edge
+  const keyboard = useKeyboardHide({
+    enabled: hideOnKeyboard && position === 'bottom',
+    mode: keyboardMode,
+    distance: totalHeight,
+    bottomInset: edgeInset,
+    reduceMotion,
+  });
+  const barTranslateY = useMemo(
+    () => Animated.add(scrollTranslateY, keyboard.translateY),
+    [scrollTranslateY, keyboard.translateY]
+  );
+  // Rails never slide, so show()/hide() on a shared controller leave them in place
+  const translateStyle = isVertical ? undefined : { transform: [{ translateY: barTranslateY }] };
+  const keyboardStyle = [
+    { opacity: keyboard.opacity },
+    keyboard.isCollapsed && styles.keyboardCollapsed,
+  ];
+
+  // Always bring the bar back when the active tab changes
+  useEffect(() => {
+    setVisible(true);
+  }, [resolvedActiveItemId, setVisible]);
+
+  // Animate background layers when the theme changes (e.g. light/dark switch)
+  const animatedBaseColor = useColorTransition(themeTokens.background.base);
+  const animatedOverlayColor = useColorTransition(themeTokens.background.overlay);
+  const isGlassTheme = themeTokens.base === 'glass';
+
+  useNavbarValidation({
+    items,
+    visibleItemCount: visibleItems.length,
+    activeItemId,
+    defaultActiveItemId,
+    hasBlurComponent: BlurComponent !== undefined,
+    isGlassTheme,
+    blurIntensity,
+  });
 
   // Default glow enabled for glass theme
-  const isGlowEnabled = enableGlow ?? (theme === 'glass');
+  const isGlowEnabled = enableGlow ?? isGlassTheme;
 
   // Default colours based on theme
-  const effectiveGlowColor = glowColor ?? (theme === 'glass'
-    ? 'rgba(255, 255, 255, 0.5)'
-    : 'rgba(255, 149, 0, 0.4)');
-  const effectiveActiveColor = activeColor ?? (theme === 'glass'
-    ? 'rgba(255, 255, 255, 0.2)'
-    : DEFAULT_COLORS.gold);
+  const effectiveGlowColor = glowColor ?? themeTokens.colors.glow;
+  const effectiveActiveColor = activeColor ?? themeTokens.colors.indicator;
+
+  // Foreground colours and borders fade with the background; items crossfade their icons
+  const animatedColors: NavItemAnimatedColors = {
+    label: useColorTransition(themeTokens.colors.label),
+    labelActive: useColorTransition(themeTokens.colors.labelActive),
+    specialLabel: useColorTransition(themeTokens.colors.specialLabel),
+    specialButton: useColorTransition(themeTokens.colors.specialButton),
+    indicator: useColorTransition(effectiveActiveColor),
+  };
+  const animatedIndicatorFill = useColorTransition(themeTokens.colors.indicatorFill);
+  const animatedBorderTopColor = useColorTransition(themeTokens.border.topColor);
+  const animatedBorderBottomColor = useColorTransition(themeTokens.border.bottomColor);
+  const animatedBorderSideColor = useColorTransition(themeTokens.border.sideColor);
+  // Rails draw their content-side edge in the top colour (see getThemeStyles)
+  const animatedBorderEdgeColor = isVertical && !isFloating ? animatedBorderTopColor : animatedBorderSideColor;
 
   const renderBackground = () => {
     // If BlurComponent is provided and theme is glass, use real blur
-    if (BlurComponent && theme === 'glass') {
+    if (BlurComponent && isGlassTheme) {
       return (
         <>
           <BlurComponent
             style={styles.blurBackground}
             blurType={blurType}
             blurAmount={blurIntensity}
-            reducedTransparencyFallbackColor="rgba(255, 255, 255, 0.3)"
+            reducedTransparencyFallbackColor={themeTokens.background.blurFallback}
           />
           {/* Overlay on top of blur for extra frosting */}
-          <View style={[styles.glassOverlay, styles.glassBlurOverlay]} />
-          <View style={themeStyles.border as ViewStyle} />
+          <View style={[styles.glassOverlay, { backgroundColor: themeTokens.background.blurOverlay }]} />
+          <View style={[themeStyles.border as ViewStyle, isFloating && { borderRadius: floatingRadius }]} />
         </>
       );
     }
@@ -552,62 +1509,206 @@ export const DynamicNavbar: React.FC<DynamicNavbarProps> = ({
     // Fallback: layered overlays to simulate glass effect
     return (
       <>
-        <View style={[styles.glassOverlay, themeStyles.overlay]} />
-        {theme === 'glass' && (
-          <>
-            {/* Additional frost layers for glass theme */}
-            <View style={[styles.glassOverlay, styles.glassFrostLayer1]} />
-            <View style={[styles.glassOverlay, styles.glassFrostLayer2]} />
-            <View style={[styles.glassOverlay, styles.glassFrostLayer3]} />
-            {/* Specular Highlight - top edge light catch (Layer 2) */}
-            {position === 'bottom' && (
-              <View style={styles.glassSpecularHighlight} />
-            )}
-            {position === 'top' && (
-              <View style={[styles.glassSpecularHighlight, { top: 'auto', bottom: 0 }]} />
-            )}
-            <View style={themeStyles.border as ViewStyle} />
-          </>
+        <Animated.View
+          style={[
+            styles.glassOverlay,
+            themeStyles.overlay,
+            isFloating && { borderRadius: floatingRadius },
+            {
+              backgroundColor: animatedOverlayColor,
+              borderTopColor: animatedBorderTopColor,
+              borderBottomColor: animatedBorderBottomColor,
+              borderLeftColor: animatedBorderEdgeColor,
+              borderRightColor: animatedBorderEdgeColor,
+            },
+          ]}
+        />
+        {/* Additional frost layers (glass theme) */}
+        {themeTokens.background.frostLayers.map((frostColor, index) => (
+          <View
+            key={`frost-${index}`}
+            style={[styles.glassOverlay, { backgroundColor: frostColor }]}
+          />
+        ))}
+        {/* Specular Highlight - edge light catch (Layer 2) */}
+        {themeTokens.background.specularHighlight && (
+          <View
+            style={[
+              isVertical && !isFloating
+                ? [
+                  styles.glassSpecularHighlightRail,
+                  position === 'left' ? { right: 0 } : { left: 0 },
+                ]
+                : styles.glassSpecularHighlight,
+              { backgroundColor: themeTokens.background.specularHighlight },
+              position === 'top' && !isFloating && { top: 'auto', bottom: 0 },
+            ]}
+          />
+        )}
+        {isGlassTheme && (
+          <View style={[themeStyles.border as ViewStyle, isFloating && { borderRadius: floatingRadius }]} />
         )}
       </>
     );
   };
 
-  return (
-    <View
+  const bar = (
+    <Animated.View
+      accessibilityRole="tablist"
+      onLayout={maxVisibleItems === 'auto' || labelPosition === 'auto' ? handleLayout : undefined}
       style={[
         styles.container,
-        position === 'bottom' && styles.containerBottom,
-        { height },
+        // Legacy fixed padding when no safe area insets are known
+        position === 'bottom' && !hasInsets && !isFloating && styles.containerBottom,
+        isVertical
+          ? [styles.containerRail, { width: barThickness }]
+          : { height: barThickness },
+        safeAreaStyle,
+        isFloating
+          ? [
+            styles.containerFloating,
+            {
+              borderRadius: floatingRadius,
+              [isVertical ? 'maxHeight' : 'maxWidth']: floatingOptions?.maxWidth ?? 560,
+            },
+          ]
+          : [translateStyle, keyboardStyle],
         themeStyles.container,
-        backgroundColor ? { backgroundColor } : undefined,
+        { backgroundColor: backgroundColor ?? animatedBaseColor },
         borderColor && position === 'top' ? { borderBottomColor: borderColor } : undefined,
         borderColor && position === 'bottom' ? { borderTopColor: borderColor } : undefined,
+        borderColor && position === 'left' ? { borderRightColor: borderColor } : undefined,
+        borderColor && position === 'right' ? { borderLeftColor: borderColor } : undefined,
       ]}
     >
-      {renderBackground()}
-      {displayItems.map(item => {
-        const isActive = activeItemId === item.id;
-        const isVisible = item.visible !== false;
-
-        if (!isVisible) {
-          return null;
-        }
+      {isFloating ? (
+        // Clip the background layers (and blur) to the rounded shape
+        <View style={[styles.floatingClip, { borderRadius: floatingRadius }]}>
+          {renderBackground()}
+        </View>
+      ) : (
+        renderBackground()
+      )}
+      {isSlidingIndicator && (
+        <SlidingIndicator
+          layout={indicatorLayout}
+          shape={indicatorShape}
+          color={isFilledIndicator ? animatedIndicatorFill : animatedColors.indicator}
+          spring={indicatorSpring}
+          animation={resolvedAnimation.activeChange}
+          reduceMotion={reduceMotion}
+        />
+      )}
+      {isVertical && railHeader}
+      {/* Rails center the items between the header and footer */}
+      {isVertical && <View style={styles.railSpacer} />}
+      {presentItems.map(({ item, presence, isLeaving }) => {
+        const isActive = item.id === MORE_ITEM_ID
+          ? isOverflowActive
+          : resolvedActiveItemId === item.id;
 
         return (
           <AnimatedNavItem
             key={item.id}
             item={item}
             isActive={isActive}
-            showLabels={showLabels}
+            labelVisibility={resolvedLabelVisibility}
+            labelTextProps={labelTextProps}
             enableGlow={isGlowEnabled}
             glowColor={effectiveGlowColor}
-            activeColor={effectiveActiveColor}
-            theme={theme}
+            animatedColors={animatedColors}
+            themeTokens={themeTokens}
+            direction={direction}
+            reduceMotion={reduceMotion}
+            showIndicator={!isSlidingIndicator}
+            onItemLayout={isSlidingIndicator ? handleItemLayout : undefined}
+            onPress={handleItemPress}
+            onHaptic={handleHaptic}
+            renderers={renderers}
+            animation={resolvedAnimation}
+            isExpanded={expanded?.item.id === item.id}
+            isVertical={isVertical}
+            labelBeside={labelBeside}
+            presence={presence}
+            isLeaving={isLeaving}
           />
         );
       })}
-    </View>
+      {isVertical && <View style={styles.railSpacer} />}
+      {isVertical && railFooter}
+      {hasOverflow && (
+        <MoreMenu
+          visible={isMoreOpen}
+          items={overflowItems}
+          activeItemId={resolvedActiveItemId}
+          onSelect={handleItemPress}
+          onHaptic={handleHaptic}
+          position={position}
+          offset={totalHeight}
+          direction={direction}
+          themeTokens={themeTokens}
+          animation={resolvedAnimation.activeChange}
+          reduceMotion={reduceMotion}
+          onClose={() => setIsMoreOpen(false)}
+        />
+      )}
+      {lastExpanded.current && (
+        <ActionMenu
+          visible={expanded !== null}
+          actions={lastExpanded.current.item.actions ?? []}
+          anchor={lastExpanded.current.anchor}
+          anchorIcon={
+            isExpandedItemCustom
+              ? undefined
+              : isExpandedItemActive
+                ? lastExpanded.current.item.activeIcon ?? lastExpanded.current.item.icon
+                : lastExpanded.current.item.icon
+          }
+          anchorIsActive={isExpandedItemActive}
+          anchorIsSpecial={lastExpanded.current.item.isSpecial ?? false}
+          animation={resolvedAnimation.activeChange}
+          layout={lastExpanded.current.item.actionLayout ?? 'radial'}
+          position={position}
+          direction={direction}
+          backdrop={lastExpanded.current.item.actionBackdrop ?? true}
+          radius={lastExpanded.current.item.actionRadius ?? 96}
+          themeTokens={themeTokens}
+          reduceMotion={reduceMotion}
+          onClose={closeActions}
+        />
+      )}
+    </Animated.View>
+  );
+
+  if (!isFloating) {
+    return bar;
+  }
+
+  // Floating: margins (plus safe area insets) live on a touch-transparent wrapper
+  return (
+    <Animated.View
+      pointerEvents="box-none"
+      style={[
+        isVertical ? styles.floatingWrapperRail : styles.floatingWrapper,
+        isVertical
+          ? {
+            paddingTop: floatingHorizontalMargin + (hasInsets ? safeInsets.top : 0),
+            paddingBottom: floatingHorizontalMargin + (hasInsets ? safeInsets.bottom : 0),
+            paddingLeft: position === 'left' ? floatingEdgeMargin + edgeInset : 0,
+            paddingRight: position === 'right' ? floatingEdgeMargin + edgeInset : 0,
+          }
+          : {
+            paddingLeft: floatingHorizontalMargin + (hasInsets ? safeInsets.left : 0),
+            paddingRight: floatingHorizontalMargin + (hasInsets ? safeInsets.right : 0),
+            paddingTop: position === 'top' ? floatingEdgeMargin + edgeInset : 0,
+            paddingBottom: position === 'bottom' ? floatingEdgeMargin + edgeInset : 0,
+          },
+        translateStyle,
+        keyboardStyle,
+      ]}
+    >
+      {bar}
+    </Animated.View>
   );
 };
 
@@ -624,6 +1725,40 @@ const styles = StyleSheet.create({
   containerBottom: {
     paddingBottom: 20,
   },
+  // Vertical rail (position 'left' | 'right')
+  containerRail: {
+    flexDirection: 'column',
+    justifyContent: 'flex-start',
+    alignItems: 'stretch',
+    height: '100%',
+  },
+  railSpacer: {
+    flex: 1,
+  },
+  // Floating capsule: shadow stays visible, background layers are clipped by floatingClip
+  containerFloating: {
+    overflow: 'visible',
+  },
+  // Removed from layout while hidden for the keyboard
+  keyboardCollapsed: {
+    display: 'none',
+  },
+  floatingWrapper: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  floatingWrapperRail: {
+    height: '100%',
+    justifyContent: 'center',
+  },
+  floatingClip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    overflow: 'hidden',
+  },
   blurBackground: {
     position: 'absolute',
     top: 0,
@@ -638,29 +1773,6 @@ const styles = StyleSheet.create({
     right: 0,
     bottom: 0,
   },
-  // Overlay when using real BlurComponent
-  glassBlurOverlay: {
-    backgroundColor: 'rgba(20, 20, 30, 0.3)',
-  },
-  // Liquid Glass theme: Enhanced multi-layer frost effect
-  // Layer 1: Base frost for diffusion
-  glassFrostLayer1: {
-    backgroundColor: 'rgba(255, 255, 255, 0.05)',
-  },
-  // Layer 2: Saturation boost - cool tone enhancement (simulates CSS saturate)
-  glassFrostLayer2: {
-    backgroundColor: Platform.select({
-      ios: 'rgba(100, 120, 255, 0.035)', // Cool blue tint for color vibrancy
-      android: 'rgba(100, 120, 255, 0.03)',
-    }),
-  },
-  // Layer 3: Additional white frost for depth
-  glassFrostLayer3: {
-    backgroundColor: Platform.select({
-      ios: 'rgba(255, 255, 255, 0.03)',
-      android: 'rgba(255, 255, 255, 0.025)',
-    }),
-  },
   // Layer 2: Specular Highlight - top edge light catch (Apple's signature detail)
   glassSpecularHighlight: {
     position: 'absolute',
@@ -668,7 +1780,13 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
     height: 1.5,
-    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  // Rails catch the light on the edge facing the content
+  glassSpecularHighlightRail: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1.5,
   },
   tab: {
     flex: 1,
@@ -683,6 +1801,24 @@ const styles = StyleSheet.create({
   tabSpecial: {
     flex: 1.2,
   },
+  tabRail: {
+    flex: 0,
+    paddingVertical: 6,
+  },
+  tabBeside: {
+    alignItems: 'stretch',
+  },
+  tabContentBeside: {
+    flexDirection: 'row',
+    justifyContent: 'flex-start',
+    paddingHorizontal: 8,
+  },
+  tabContentBesideBar: {
+    justifyContent: 'center',
+  },
+  tabContentBesideRtl: {
+    flexDirection: 'row-reverse',
+  },
   tabDisabled: {
     opacity: 0.4,
   },
@@ -707,6 +1843,10 @@ const styles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
     marginTop: 2,
+    overflow: 'hidden',
+  },
+  activeIndicatorColor: {
+    ...StyleSheet.absoluteFillObject,
   },
   activeIndicatorGlass: {
     width: 20,
@@ -717,6 +1857,11 @@ const styles = StyleSheet.create({
   activeIndicatorNoLabel: {
     marginTop: 1,
   },
+  activeIconLayer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   iconContainer: {
     width: 32,
     height: 32,
@@ -727,21 +1872,64 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: DEFAULT_COLORS.gold,
     marginBottom: 4,
   },
   label: {
-    ...DEFAULT_TYPOGRAPHY.ui.small,
-    color: DEFAULT_COLORS.textSecondary,
-    fontSize: 11,
     marginTop: 2,
   },
-  labelActive: {
-    color: DEFAULT_COLORS.goldText,
-    fontWeight: '600',
+  labelBeside: {
+    marginTop: 0,
+    marginHorizontal: 8,
+    fontSize: 14,
+  },
+  // Off-screen copy used to measure the label in 'selected' mode
+  labelMeasure: {
+    position: 'absolute',
+    opacity: 0,
+  },
+  labelReveal: {
+    overflow: 'hidden',
+  },
+  // Count/text badge pill
+  badge: {
+    position: 'absolute',
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 5,
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 2,
+  },
+  badgeDot: {
+    position: 'absolute',
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    zIndex: 2,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    lineHeight: 13,
+    textAlign: 'center',
+  },
+  // Badge offsets - regular icons sit 32px inside the 44px wrapper
+  badgeOffset: {
+    top: 0,
+    right: -2,
+  },
+  badgeDotOffset: {
+    top: 6,
+    right: 6,
+  },
+  // Special button circle (48px) overflows the wrapper, so push further out
+  badgeSpecialOffset: {
+    top: -8,
+    right: -8,
   },
-  labelSpecial: {
-    color: DEFAULT_COLORS.midnightBlue,
-    fontWeight: '600',
+  badgeDotSpecialOffset: {
+    top: -3,
+    right: -1,
   },
 });
\ No newline at end of file
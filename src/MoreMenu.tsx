@@ -0,0 +1,212 @@
+/**
+ * Overflow "More" menu
+ * Animated sheet listing the nav items that did not fit in the bar
+ */
+
+import React from 'react';
+import {
+  Animated,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import type { NavItem, NavbarPosition } from './DynamicNavbar';
+import type { NavbarThemeTokens } from './theme';
+import type { NavbarPhaseAnimation } from './animation';
+import { renderIcon } from './icons';
+import type { NavbarHapticEvent } from './haptics';
+import { useMenuTransition } from './useMenuTransition';
+
+export interface MoreMenuProps {
+  visible: boolean;
+  items: NavItem[];
+  activeItemId?: string;
+  position: NavbarPosition;
+  /** Distance from the screen edge to the sheet (the navbar thickness) */
+  offset: number;
+  direction: 'ltr' | 'rtl';
+  themeTokens: NavbarThemeTokens;
+  /** Phase for the open and close transition */
+  animation: NavbarPhaseAnimation;
+  reduceMotion: boolean;
+  /** Called when an enabled item is pressed; the menu closes afterwards */
+  onSelect: (item: NavItem) => void;
+  onHaptic: (item: NavItem, event: NavbarHapticEvent) => void;
+  onClose: () => void;
+}
+
+export const MoreMenu: React.FC<MoreMenuProps> = ({
+  visible,
+  items,
+  activeItemId,
+  position,
+  offset,
+  direction,
+  themeTokens,
+  animation,
+  reduceMotion,
+  onSelect,
+  onHaptic,
+  onClose,
+}) => {
+  const { openAnim, isMounted } = useMenuTransition(visible, animation, reduceMotion);
+  const { colors, typography, background } = themeTokens;
+
+  if (!isMounted) {
+    return null;
+  }
+
+  // Slide in from the navbar side
+  const isRail = position === 'left' || position === 'right';
+  const slideFrom = position === 'bottom' || position === 'right' ? 24 : -24;
+  const slide = openAnim.interpolate({
+    inputRange: [0, 1],
+    outputRange: [slideFrom, 0],
+  });
+
+  // Bars open the sheet above/below themselves at the trailing side;
+  // rails open it beside themselves at the bottom
+  const placement = isRail
+    ? [styles.sheetRail, position === 'left' ? { left: offset + 8 } : { right: offset + 8 }]
+    : [
+      position === 'bottom' ? { bottom: offset + 8 } : { top: offset + 8 },
+      direction === 'rtl' ? styles.sheetRtl : styles.sheetLtr,
+    ];
+
+  return (
+    <Modal transparent visible={isMounted} animationType="none" onRequestClose={onClose}>
+      <Pressable
+        style={styles.backdrop}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close menu"
+      >
+        <Animated.View style={[styles.backdropTint, { opacity: openAnim }]} />
+      </Pressable>
+
+      <Animated.View
+        accessibilityViewIsModal
+        style={[
+          styles.sheet,
+          placement,
+          {
+            backgroundColor: background.blurFallback,
+            opacity: openAnim,
+            transform: isRail ? [{ translateX: slide }] : [{ translateY: slide }],
+          },
+        ]}
+      >
+        <View style={[StyleSheet.absoluteFill, { backgroundColor: background.base }]} />
+        {items.map(item => {
+          const isActive = item.id === activeItemId;
+          const isDisabled = item.disabled === true;
+
+          return (
+            <Pressable
+              key={item.id}
+              onPress={() => {
+                if (isDisabled) {
+                  onHaptic(item, 'disabled');
+                  item.onDisabledPress?.();
+                  return;
+                }
+                onSelect(item);
+                onClose();
+              }}
+              onLongPress={isDisabled || !item.onLongPress ? undefined : () => {
+                onHaptic(item, 'longPress');
+                item.onLongPress?.();
+              }}
+              delayLongPress={item.longPressDelay}
+              disabled={isDisabled && !item.onDisabledPress}
+              accessibilityRole="menuitem"
+              accessibilityLabel={item.accessibilityLabel ?? item.label ?? item.id}
+              accessibilityHint={item.accessibilityHint}
+              accessibilityState={{ selected: isActive, disabled: isDisabled }}
+              style={({ pressed }) => [
+                styles.row,
+                direction === 'rtl' && styles.rowRtl,
+                pressed && { backgroundColor: colors.glow },
+                isDisabled && styles.rowDisabled,
+              ]}
+            >
+              <View style={styles.rowIcon}>
+                {renderIcon(isActive && item.activeIcon ? item.activeIcon : item.icon, isActive, false, colors)}
+              </View>
+              {item.label && (
+                <Text
+                  style={[
+                    typography.label,
+                    styles.rowLabel,
+                    { color: colors.label },
+                    isActive && [typography.labelActive, { color: colors.labelActive }],
+                  ]}
+                  numberOfLines={1}
+                >
+                  {item.label}
+                </Text>
+              )}
+            </Pressable>
+          );
+        })}
+      </Animated.View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  backdropTint: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  sheet: {
+    position: 'absolute',
+    minWidth: 200,
+    maxWidth: 280,
+    paddingVertical: 6,
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.2,
+    shadowRadius: 24,
+    elevation: 16,
+  },
+  sheetLtr: {
+    right: 12,
+  },
+  sheetRtl: {
+    left: 12,
+  },
+  sheetRail: {
+    bottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  rowRtl: {
+    flexDirection: 'row-reverse',
+  },
+  rowDisabled: {
+    opacity: 0.4,
+  },
+  rowIcon: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowLabel: {
+    fontSize: 15,
+    lineHeight: 20,
+    marginHorizontal: 12,
+  },
+});
@@ -0,0 +1,156 @@
+/**
+ * Navbar Theme Provider
+ * Shares a theme and colour scheme with every DynamicNavbar in the tree,
+ * following the system light/dark setting when colorScheme is 'system'
+ */
+
+import React, { createContext, useContext, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Animated, Easing, useColorScheme } from 'react-native';
+import {
+  NavbarColorScheme,
+  NavbarColorSchemePreference,
+  NavbarTheme,
+  NavbarThemeTokens,
+  resolveNavbarTheme,
+} from './theme';
+
+/**
+ * NavbarThemeProvider props
+ */
+export interface NavbarThemeProviderProps {
+  children?: React.ReactNode;
+  /** Theme used for every navbar in the tree (and for light mode unless lightTheme is set) */
+  theme?: NavbarTheme;
+  /** Theme used in light mode (default: light variant of `theme`) */
+  lightTheme?: NavbarTheme;
+  /** Colour scheme: fixed 'light'/'dark' or 'system' to follow the device (default: 'system') */
+  colorScheme?: NavbarColorSchemePreference;
+}
+
+interface NavbarThemeContextValue {
+  theme?: NavbarTheme;
+  lightTheme?: NavbarTheme;
+  colorScheme: NavbarColorSchemePreference;
+}
+
+const NavbarThemeContext = createContext<NavbarThemeContextValue | null>(null);
+
+export const NavbarThemeProvider: React.FC<NavbarThemeProviderProps> = ({
+  children,
+  theme,
+  lightTheme,
+  colorScheme = 'system',
+}) => {
+  const value = useMemo(
+    () => ({ theme, lightTheme, colorScheme }),
+    [theme, lightTheme, colorScheme]
+  );
+
+  return (
+    <NavbarThemeContext.Provider value={value}>
+      {children}
+    </NavbarThemeContext.Provider>
+  );
+};
+
+/**
+ * Resolve the effective theme tokens for a navbar.
+ * Props take precedence over the provider; without either the navbar keeps
+ * the original dark 'default' theme.
+ */
+export const useNavbarTheme = (
+  theme?: NavbarTheme,
+  colorScheme?: NavbarColorSchemePreference
+): { tokens: NavbarThemeTokens; colorScheme: NavbarColorScheme } => {
+  const context = useContext(NavbarThemeContext);
+  const systemScheme = useColorScheme();
+
+  const preference = colorScheme ?? context?.colorScheme ?? 'dark';
+  const scheme: NavbarColorScheme = preference === 'system'
+    ? (systemScheme === 'light' ? 'light' : 'dark')
+    : preference;
+
+  const effectiveTheme = theme
+    ?? (scheme === 'light' ? context?.lightTheme ?? context?.theme : context?.theme)
+    ?? 'default';
+
+  const tokens = useMemo(
+    () => resolveNavbarTheme(effectiveTheme, scheme),
+    [effectiveTheme, scheme]
+  );
+
+  return { tokens, colorScheme: scheme };
+};
+
+/**
+ * Animate between colours when a theme colour token changes
+ * (e.g. on a light/dark switch). Runs on the JS driver.
+ */
+export const useColorTransition = (
+  color: string,
+  duration = 300
+): Animated.AnimatedInterpolation<string> => {
+  const progress = useRef(new Animated.Value(1)).current;
+  const currentColor = useRef(color);
+  const [range, setRange] = useState<[string, string]>([color, color]);
+
+  useEffect(() => {
+    if (currentColor.current === color) return;
+
+    setRange([currentColor.current, color]);
+    currentColor.current = color;
+    progress.setValue(0);
+    Animated.timing(progress, {
+      toValue: 1,
+      duration,
+      easing: Easing.bezier(0.16, 1, 0.3, 1),
+      useNativeDriver: false,
+    }).start();
+  }, [color, duration, progress]);
+
+  return useMemo(
+    () => progress.interpolate({
+      inputRange: [0, 1],
+      outputRange: range,
+    }),
+    [progress, range]
+  );
+};
+
+/**
+ * Keep the previous colours while a change fades in, for content whose colour can't be
+ * animated (icon fonts, tinted images). `key` identifies the colours that matter.
+ * Draw the content with `colors` at `progress` opacity and with `previous` (while set) on top at `1 - progress`.
+ */
+export const useColorCrossfade = <T,>(
+  colors: T,
+  key: string,
+  duration = 300
+): { previous: T | null; progress: Animated.Value } => {
+  const progress = useRef(new Animated.Value(1)).current;
+  const current = useRef({ key, colors });
+  const [previous, setPrevious] = useState<T | null>(null);
+
+  // Layout effect, so the new colours never show before the old ones start fading out
+  useLayoutEffect(() => {
+    if (current.current.key === key) {
+      current.current.colors = colors;
+      return;
+    }
+
+    const previousColors = current.current.colors;
+    current.current = { key, colors };
+    setPrevious(() => previousColors);
+    progress.setValue(0);
+    Animated.timing(progress, {
+      toValue: 1,
+      duration,
+      easing: Easing.bezier(0.16, 1, 0.3, 1),
+      useNativeDriver: true,
+    }).start(({ finished }) => {
+      if (finished) setPrevious(null);
+    });
+  }, [key, colors, duration, progress]);
+
+  return { previous, progress };
+};
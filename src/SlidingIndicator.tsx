@@ -0,0 +1,192 @@
+/**
+ * Sliding active indicator
+ * A single container-level indicator that springs between measured item layouts
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Animated, StyleSheet } from 'react-native';
+import type { NavbarPhaseAnimation } from './animation';
+
+/**
+ * Indicator shapes
+ * - 'dot': small dot below the item
+ * - 'underline': bar below the item
+ * - 'pill': pill behind the icon
+ * - 'highlight': rounded highlight covering the whole tab
+ */
+export type NavbarIndicatorShape = 'dot' | 'underline' | 'pill' | 'highlight';
+
+/**
+ * Spring physics for the sliding indicator
+ */
+export interface NavbarIndicatorSpring {
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+}
+
+/**
+ * Layout of an item within the navbar container
+ */
+export interface NavItemLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Center of the icon wrapper, in container coordinates */
+  iconCenterX: number;
+  iconCenterY: number;
+}
+
+interface IndicatorRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  borderRadius: number;
+}
+
+/**
+ * Get the indicator frame for a shape over an item layout
+ */
+const getIndicatorRect = (shape: NavbarIndicatorShape, layout: NavItemLayout): IndicatorRect => {
+  switch (shape) {
+    case 'underline': {
+      const width = Math.min(layout.width * 0.5, 32);
+      return {
+        left: layout.x + (layout.width - width) / 2,
+        top: layout.y + layout.height + 2,
+        width,
+        height: 3,
+        borderRadius: 1.5,
+      };
+    }
+    case 'pill':
+      return {
+        left: layout.iconCenterX - 28,
+        top: layout.iconCenterY - 16,
+        width: 56,
+        height: 32,
+        borderRadius: 16,
+      };
+    case 'highlight':
+      return {
+        left: layout.x + 4,
+        top: layout.y - 6,
+        width: layout.width - 8,
+        height: layout.height + 12,
+        borderRadius: 14,
+      };
+    case 'dot':
+    default:
+      return {
+        left: layout.x + layout.width / 2 - 3,
+        top: layout.y + layout.height + 2,
+        width: 6,
+        height: 6,
+        borderRadius: 3,
+      };
+  }
+};
+
+interface SlidingIndicatorProps {
+  /** Layout of the active item, or undefined to hide the indicator */
+  layout?: NavItemLayout;
+  shape: NavbarIndicatorShape;
+  color: string | Animated.AnimatedInterpolation<string>;
+  spring?: NavbarIndicatorSpring;
+  /** Active change phase; an instant one (e.g. animation 'none') moves the indicator without sliding */
+  animation: NavbarPhaseAnimation;
+  reduceMotion: boolean;
+}
+
+export const SlidingIndicator: React.FC<SlidingIndicatorProps> = ({
+  layout,
+  shape,
+  color,
+  spring,
+  animation,
+  reduceMotion,
+}) => {
+  const left = useRef(new Animated.Value(0)).current;
+  const top = useRef(new Animated.Value(0)).current;
+  const width = useRef(new Animated.Value(0)).current;
+  const height = useRef(new Animated.Value(0)).current;
+  const opacity = useRef(new Animated.Value(0)).current;
+  const hasPosition = useRef(false);
+
+  const rect = layout ? getIndicatorRect(shape, layout) : null;
+  const isInstant = reduceMotion || (animation.type === 'timing' && animation.duration === 0);
+
+  useEffect(() => {
+    if (!rect) {
+      Animated.timing(opacity, {
+        toValue: 0,
+        duration: isInstant ? 0 : 150,
+        useNativeDriver: false,
+      }).start();
+      return;
+    }
+
+    // Jump straight to the first measured item instead of sliding in from 0
+    if (!hasPosition.current || isInstant) {
+      hasPosition.current = true;
+      left.setValue(rect.left);
+      top.setValue(rect.top);
+      width.setValue(rect.width);
+      height.setValue(rect.height);
+      opacity.setValue(1);
+      return;
+    }
+
+    const springConfig = {
+      stiffness: spring?.stiffness ?? 300,
+      damping: spring?.damping ?? 26,
+      mass: spring?.mass ?? 1,
+      // Layout props can't run on the native driver
+      useNativeDriver: false,
+    };
+
+    Animated.parallel([
+      Animated.spring(left, { ...springConfig, toValue: rect.left }),
+      Animated.spring(top, { ...springConfig, toValue: rect.top }),
+      Animated.spring(width, { ...springConfig, toValue: rect.width }),
+      Animated.spring(height, { ...springConfig, toValue: rect.height }),
+      Animated.timing(opacity, { toValue: 1, duration: 150, useNativeDriver: false }),
+    ]).start();
+  }, [
+    rect?.left,
+    rect?.top,
+    rect?.width,
+    rect?.height,
+    spring?.stiffness,
+    spring?.damping,
+    spring?.mass,
+    isInstant,
+  ]);
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        styles.indicator,
+        {
+          left,
+          top,
+          width,
+          height,
+          opacity,
+          borderRadius: rect?.borderRadius ?? 0,
+          backgroundColor: color,
+        },
+      ]}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  indicator: {
+    position: 'absolute',
+    zIndex: 0,
+  },
+});
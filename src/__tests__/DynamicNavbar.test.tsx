@@ -0,0 +1,101 @@
+import React from 'react';
+import { AccessibilityInfo, processColor, StyleSheet } from 'react-native';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import { DynamicNavbar, NavItem } from '../DynamicNavbar';
+import { resolveNavbarTheme } from '../theme';
+
+jest.mock('react-native-safe-area-context', () => require('react-native-safe-area-context/jest/mock').default);
+
+const items: NavItem[] = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({
+  id,
+  label: id.toUpperCase(),
+  icon: { type: 'custom', render: () => null },
+  onPress: jest.fn(),
+}));
+
+describe('DynamicNavbar', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // The react-native jest setup stubs these without return values
+    jest.spyOn(AccessibilityInfo, 'isReduceMotionEnabled').mockResolvedValue(false);
+    jest.spyOn(AccessibilityInfo, 'addEventListener').mockReturnValue(
+      { remove: jest.fn() } as unknown as ReturnType<typeof AccessibilityInfo.addEventListener>
+    );
+  });
+
+  afterEach(() => {
+    act(() => {
+      jest.runAllTimers();
+    });
+  });
+
+  it('moves items into "More" without animating them out once the bar is measured', async () => {
+    render(<DynamicNavbar items={items} maxVisibleItems="auto" activeItemId="a" />);
+    // Let the reduce motion query resolve
+    await act(async () => {});
+    expect(screen.getAllByRole('tab')).toHaveLength(6);
+
+    // The tab list view isn't accessible itself, so it can't be queried by role
+    const [bar] = screen.UNSAFE_getAllByProps({ accessibilityRole: 'tablist' });
+    fireEvent(bar, 'layout', { nativeEvent: { layout: { x: 0, y: 0, width: 250, height: 64 } } });
+
+    expect(screen.getAllByRole('tab').map(tab => tab.props.accessibilityLabel)).toEqual(['A', 'B', 'More']);
+    // Items animating out stay rendered, hidden from screen readers
+    expect(screen.queryByText('C', { includeHiddenElements: true })).toBeNull();
+  });
+
+  it('animates hidden items out before removing them', async () => {
+    const threeItems = items.slice(0, 3);
+    const { rerender } = render(<DynamicNavbar items={threeItems} activeItemId="a" />);
+    await act(async () => {});
+
+    rerender(<DynamicNavbar items={threeItems.map(item => (item.id === 'c' ? { ...item, visible: false } : item))} activeItemId="a" />);
+
+    expect(screen.getAllByRole('tab')).toHaveLength(2);
+    expect(screen.getByText('C', { includeHiddenElements: true })).toBeTruthy();
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(screen.queryByText('C', { includeHiddenElements: true })).toBeNull();
+  });
+
+  const labelColor = (label: string) => processColor(StyleSheet.flatten(screen.getByText(label).props.style).color);
+
+  it('fades label colours and crossfades icons on a colour scheme switch', async () => {
+    const dark = resolveNavbarTheme('default', 'dark').colors;
+    const light = resolveNavbarTheme('default', 'light').colors;
+    const iconColors = new Set<string>();
+    const navbar = (colorScheme: 'light' | 'dark') => (
+      <DynamicNavbar
+        items={[{
+          id: 'a',
+          label: 'A',
+          icon: { type: 'custom', render: ({ color }) => { iconColors.add(color); return null; } },
+          onPress: jest.fn(),
+        }]}
+        activeItemId="a"
+        colorScheme={colorScheme}
+      />
+    );
+    const { rerender } = render(navbar('dark'));
+    await act(async () => {});
+
+    iconColors.clear();
+    rerender(navbar('light'));
+
+    // Both icons are drawn while the old one fades out, and the label starts from the old colour
+    expect(iconColors).toEqual(new Set([dark.iconActive, light.iconActive]));
+    expect(labelColor('A')).toBe(processColor(dark.labelActive));
+
+    act(() => {
+      jest.runAllTimers();
+    });
+    iconColors.clear();
+    rerender(navbar('light'));
+
+    expect(iconColors).toEqual(new Set([light.iconActive]));
+    expect(labelColor('A')).toBe(processColor(light.labelActive));
+  });
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import { AccessibilityInfo, Text } from 'react-native';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import { NavigationContainer } from '@react-navigation/native';
+import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createDynamicTabBar, DynamicTabBarConfig } from '../createDynamicTabBar';
+import type { NavItemIcon } from '../DynamicNavbar';
+
+jest.mock('react-native-safe-area-context', () => require('react-native-safe-area-context/jest/mock').default);
+
+type TabParamList = {
+  Home: undefined;
+  Search: undefined;
+  Profile: undefined;
+};
+
+const Tab = createBottomTabNavigator<TabParamList>();
+
+const icon: NavItemIcon = { type: 'custom', render: () => null };
+const tabBar = createDynamicTabBar({
+  icons: { Home: icon, Search: icon, Profile: icon },
+});
+
+const HomeScreen = () => <Text>Home screen</Text>;
+const SearchScreen = () => <Text>Search screen</Text>;
+const ProfileScreen = () => <Text>Profile screen</Text>;
+
+const renderNavigator = ({
+  listeners = {},
+  hideTabBarOn,
+  renderTabBar = tabBar,
+}: {
+  listeners?: Partial<Record<keyof TabParamList, {
+    tabPress?: (event: { preventDefault: () => void }) => void;
+    tabLongPress?: () => void;
+  }>>;
+  hideTabBarOn?: keyof TabParamList;
+  renderTabBar?: typeof tabBar;
+} = {}) => render(
+  <NavigationContainer>
+    <Tab.Navigator tabBar={renderTabBar} screenOptions={{ headerShown: false }}>
+      <Tab.Screen name="Home" component={HomeScreen} listeners={listeners.Home} />
+      <Tab.Screen
+        name="Search"
+        component={SearchScreen}
+        listeners={listeners.Search}
+        options={{ tabBarBadge: 3, tabBarAccessibilityLabel: 'Search tab' }}
+      />
+      <Tab.Screen
+        name="Profile"
+        component={ProfileScreen}
+        listeners={listeners.Profile}
+        options={hideTabBarOn === 'Profile' ? { tabBarStyle: { display: 'none' } } : undefined}
+      />
+    </Tab.Navigator>
+  </NavigationContainer>
+);
+
+describe('createDynamicTabBar', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // The react-native jest setup stubs these without return values
+    jest.spyOn(AccessibilityInfo, 'isReduceMotionEnabled').mockResolvedValue(false);
+    jest.spyOn(AccessibilityInfo, 'addEventListener').mockReturnValue(
+      { remove: jest.fn() } as unknown as ReturnType<typeof AccessibilityInfo.addEventListener>
+    );
+  });
+
+  afterEach(() => {
+    // Let press and active animations finish before the tree is unmounted
+    act(() => {
+      jest.runAllTimers();
+    });
+  });
+
+  it('renders a tab per route with the screen options applied', () => {
+    renderNavigator();
+
+    expect(screen.getAllByRole('tab')).toHaveLength(3);
+    expect(screen.getByLabelText('Search tab')).toBeTruthy();
+    expect(screen.getByLabelText('Home').props.accessibilityState).toMatchObject({ selected: true });
+  });
+
+  it('emits tabPress and navigates to an unfocused tab', () => {
+    const tabPress = jest.fn();
+    renderNavigator({ listeners: { Search: { tabPress } } });
+
+    fireEvent.press(screen.getByLabelText('Search tab'));
+
+    expect(tabPress).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Search screen')).toBeTruthy();
+    expect(screen.getByLabelText('Search tab').props.accessibilityState).toMatchObject({ selected: true });
+  });
+
+  it('does not navigate when the tabPress event is prevented', () => {
+    renderNavigator({ listeners: { Search: { tabPress: event => event.preventDefault() } } });
+
+    fireEvent.press(screen.getByLabelText('Search tab'));
+
+    expect(screen.getByLabelText('Home').props.accessibilityState).toMatchObject({ selected: true });
+    expect(screen.queryByText('Search screen')).toBeNull();
+  });
+
+  it('emits tabPress without navigating when the focused tab is pressed again', () => {
+    const tabPress = jest.fn();
+    renderNavigator({ listeners: { Home: { tabPress } } });
+
+    fireEvent.press(screen.getByLabelText('Home'));
+
+    expect(tabPress).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Home screen')).toBeTruthy();
+    expect(screen.getByLabelText('Home').props.accessibilityState).toMatchObject({ selected: true });
+  });
+
+  it('emits tabPress on reselect even when itemOptions carry press callbacks', () => {
+    const tabPress = jest.fn();
+    const onReselect = jest.fn();
+    const itemOptions = { Home: { onReselect } } as DynamicTabBarConfig['itemOptions'];
+    renderNavigator({
+      listeners: { Home: { tabPress } },
+      renderTabBar: createDynamicTabBar({ icons: { Home: icon, Search: icon, Profile: icon }, itemOptions }),
+    });
+
+    fireEvent.press(screen.getByLabelText('Home'));
+
+    expect(tabPress).toHaveBeenCalledTimes(1);
+    expect(onReselect).not.toHaveBeenCalled();
+  });
+
+  it('emits tabLongPress', () => {
+    const tabLongPress = jest.fn();
+    renderNavigator({ listeners: { Profile: { tabLongPress } } });
+
+    fireEvent(screen.getByLabelText('Profile'), 'longPress');
+
+    expect(tabLongPress).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides the bar when the focused screen sets tabBarStyle display none', () => {
+    renderNavigator({ hideTabBarOn: 'Profile' });
+    expect(screen.getAllByRole('tab')).toHaveLength(3);
+
+    fireEvent.press(screen.getByLabelText('Profile'));
+
+    expect(screen.getByText('Profile screen')).toBeTruthy();
+    expect(screen.queryAllByRole('tab')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { createNavbarFromConfig, validateNavbarConfig } from '../navbarConfig';
+import { registerIconFamily } from '../icons';
+
+registerIconFamily('Ionicons', () => null);
+
+const homeItem = {
+  id: 'home',
+  label: 'Home',
+  icon: { type: 'vector', family: 'Ionicons', name: 'home' },
+  action: 'navigate',
+  params: { screen: 'Home' },
+};
+
+const resolvers = {
+  actions: { navigate: jest.fn() },
+  assets: { logo: { type: 'image' as const, source: { uri: 'logo.png' } } },
+};
+
+const errorPaths = (result: { errors: { path: string }[] }) => result.errors.map(error => error.path);
+
+describe('createNavbarFromConfig', () => {
+  it('resolves actions and assets into navbar props', () => {
+    const result = createNavbarFromConfig(JSON.stringify({
+      items: [homeItem, { id: 'shop', icon: { type: 'asset', key: 'logo' }, action: 'navigate' }],
+      features: { maxVisibleItems: 'auto' },
+    }), resolvers);
+
+    expect(result.ok).toBe(true);
+    expect(result.props?.maxVisibleItems).toBe('auto');
+    expect(result.props?.items[1].icon).toBe(resolvers.assets.logo);
+
+    result.props?.items[0].onPress();
+    expect(resolvers.actions.navigate).toHaveBeenCalledWith({ screen: 'Home' }, 'home');
+  });
+
+  it('reports unknown actions, icon families and assets', () => {
+    const result = createNavbarFromConfig({
+      items: [
+        { ...homeItem, action: 'nope', longPressAction: 'constructor' },
+        { id: 'shop', icon: { type: 'asset', key: 'missing' }, action: 'navigate' },
+        { id: 'maps', icon: { type: 'vector', family: 'Unknown', name: 'map' }, action: 'navigate' },
+      ],
+    }, resolvers);
+
+    expect(result.ok).toBe(false);
+    expect(errorPaths(result)).toEqual([
+      'items[0].action',
+      'items[0].longPressAction',
+      'items[1].icon.key',
+      'items[2].icon.family',
+    ]);
+  });
+
+  it('reports name errors together with structural errors', () => {
+    const result = createNavbarFromConfig({
+      items: [
+        homeItem,
+        { ...homeItem, action: 'nope' },
+        { id: 'shop', icon: { type: 'asset', key: 'y' }, action: 'navigate' },
+      ],
+    }, resolvers);
+
+    expect(result.ok).toBe(false);
+    expect(errorPaths(result)).toEqual(['items[1].id', 'items[1].action', 'items[2].icon.key']);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = createNavbarFromConfig('{ items: [', resolvers);
+
+    expect(result.ok).toBe(false);
+    expect(result.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('validateNavbarConfig', () => {
+  it('accepts a valid config', () => {
+    expect(validateNavbarConfig({ items: [homeItem], theme: 'glass', animation: 'snappy' })).toEqual([]);
+  });
+
+  it('reports duplicate item ids', () => {
+    expect(validateNavbarConfig({ items: [homeItem, homeItem] })).toEqual([
+      { path: 'items[1].id', message: 'Duplicate item id "home"' },
+    ]);
+  });
+
+  it('reports invalid feature values', () => {
+    const errors = validateNavbarConfig({
+      items: [homeItem],
+      features: {
+        position: 'middle',
+        height: '60',
+        maxVisibleItems: 'all',
+        constructor: 1,
+      },
+    });
+
+    expect(errors).toEqual([
+      { path: 'features.position', message: 'Expected one of "top", "bottom", "left", "right", got "middle"' },
+      { path: 'features.height', message: 'Expected a number, got string' },
+      { path: 'features.maxVisibleItems', message: 'Expected one of "auto", got "all"' },
+      { path: 'features.constructor', message: 'Unknown feature "constructor"' },
+    ]);
+  });
+
+  it('accepts a numeric or auto maxVisibleItems', () => {
+    expect(validateNavbarConfig({ items: [homeItem], features: { maxVisibleItems: 4 } })).toEqual([]);
+    expect(validateNavbarConfig({ items: [homeItem], features: { maxVisibleItems: 'auto' } })).toEqual([]);
+  });
+
+  it('reports unknown presets', () => {
+    const errors = validateNavbarConfig({ items: [], theme: 'toString', animation: 'bouncy' });
+
+    expect(errors.map(error => error.path)).toEqual(['theme', 'animation']);
+  });
+});
@@ -0,0 +1,95 @@
+import { matchPath, NavItemMatcher, resolveActiveItemId } from '../routeMatching';
+import type { NavItem } from '../DynamicNavbar';
+
+const item = (id: string, match: NavItemMatcher | NavItemMatcher[], fields: Partial<NavItem> = {}): NavItem => ({
+  id,
+  icon: { type: 'custom', render: () => null },
+  onPress: () => {},
+  match,
+  ...fields,
+});
+
+describe('matchPath', () => {
+  it('matches exact paths, ignoring trailing slash, query and hash', () => {
+    expect(matchPath('/orders', '/orders')).toBe(true);
+    expect(matchPath('/orders', '/orders/')).toBe(true);
+    expect(matchPath('/orders', '/orders?page=2#top')).toBe(true);
+    expect(matchPath('/orders', '/orders/42')).toBe(false);
+  });
+
+  it('matches a prefix and everything below it', () => {
+    expect(matchPath('/orders/*', '/orders')).toBe(true);
+    expect(matchPath('/orders/*', '/orders/42/items')).toBe(true);
+    expect(matchPath('/orders/*', '/order')).toBe(false);
+  });
+
+  it('matches one segment per param', () => {
+    expect(matchPath('/orders/:id', '/orders/42')).toBe(true);
+    expect(matchPath('/orders/:id', '/orders')).toBe(false);
+    expect(matchPath('/orders/:id', '/orders/42/items')).toBe(false);
+    expect(matchPath('/orders/:id/*', '/orders/42/items')).toBe(true);
+  });
+
+  it('calls predicates with the full path', () => {
+    const predicate = jest.fn((path: string) => path.includes('tab=chat'));
+
+    expect(matchPath(predicate, '/inbox?tab=chat')).toBe(true);
+    expect(predicate).toHaveBeenCalledWith('/inbox?tab=chat');
+  });
+});
+
+describe('resolveActiveItemId', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prefers exact matches over prefixes of the same length', () => {
+    const items = [item('all', '/orders/*'), item('list', '/orders')];
+
+    expect(resolveActiveItemId(items, '/orders')).toBe('list');
+    expect(resolveActiveItemId(items, '/orders/42')).toBe('all');
+  });
+
+  it('prefers more matched segments, then static segments over params', () => {
+    const items = [
+      item('orders', '/orders/*'),
+      item('order', '/orders/:id'),
+      item('new', '/orders/new'),
+    ];
+
+    expect(resolveActiveItemId(items, '/orders/42')).toBe('order');
+    expect(resolveActiveItemId(items, '/orders/new')).toBe('new');
+  });
+
+  it('uses the best of an item\'s patterns', () => {
+    const items = [item('orders', '/orders/*'), item('profile', ['/me', '/orders/:id/invoice'])];
+
+    expect(resolveActiveItemId(items, '/orders/42/invoice')).toBe('profile');
+  });
+
+  it('only falls back to predicates when no pattern matches', () => {
+    const items = [item('fallback', () => true), item('home', '/home')];
+
+    expect(resolveActiveItemId(items, '/home')).toBe('home');
+    expect(resolveActiveItemId(items, '/settings')).toBe('fallback');
+  });
+
+  it('resolves ties to the first item in items order and warns', () => {
+    const items = [item('first', '/feed/:id'), item('second', '/feed/:slug')];
+
+    expect(resolveActiveItemId(items, '/feed/7')).toBe('first');
+    expect(resolveActiveItemId([...items].reverse(), '/feed/7')).toBe('second');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('equal specificity'));
+  });
+
+  it('skips hidden items and returns undefined without a match', () => {
+    const items = [item('home', '/home', { visible: false })];
+
+    expect(resolveActiveItemId(items, '/home')).toBeUndefined();
+    expect(resolveActiveItemId([item('home', '/home')], '/away')).toBeUndefined();
+  });
+});
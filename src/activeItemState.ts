@@ -0,0 +1,124 @@
+/**
+ * Uncontrolled active item state
+ * Tracks the active item inside the navbar and optionally restores it from storage
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { NavItem } from './DynamicNavbar';
+import { warnOnce } from './devWarnings';
+
+/**
+ * Storage used to remember the last active item.
+ * Methods may be sync or async, so AsyncStorage, MMKV or SecureStore wrappers fit directly.
+ */
+export interface NavbarStorageAdapter {
+  get: (key: string) => string | null | undefined | Promise<string | null | undefined>;
+  set: (key: string, value: string) => void | Promise<void>;
+}
+
+/**
+ * Create a storage adapter that keeps values in memory
+ * (survives remounts, not app restarts)
+ */
+export const createMemoryStorage = (): NavbarStorageAdapter => {
+  const values = new Map<string, string>();
+  return {
+    get: key => values.get(key),
+    set: (key, value) => {
+      values.set(key, value);
+    },
+  };
+};
+
+// Shared default so every navbar with a storageKey remembers its tab across remounts
+const defaultStorage = createMemoryStorage();
+
+/**
+ * Whether pressing the item makes it the active item.
+ * Special items and expandable items are actions, not destinations, unless marked selectable.
+ */
+export const isSelectableItem = (item: NavItem): boolean => (
+  item.selectable ?? !(item.isSpecial || item.actions?.length)
+);
+
+const findSelectableId = (items: NavItem[], id: string | null | undefined): string | undefined => {
+  if (id === null || id === undefined) return undefined;
+  const item = items.find(candidate => candidate.id === id);
+  return item && item.visible !== false && isSelectableItem(item) ? item.id : undefined;
+};
+
+/**
+ * Resolve the active item for uncontrolled navbars.
+ * Used internally by DynamicNavbar.
+ */
+export const useActiveItemState = ({
+  items,
+  isControlled,
+  defaultActiveItemId,
+  onActiveItemChange,
+  storage = defaultStorage,
+  storageKey,
+}: {
+  items: NavItem[];
+  /** activeItemId is provided, so only report changes */
+  isControlled: boolean;
+  defaultActiveItemId?: string;
+  onActiveItemChange?: (id: string, prevId: string | undefined) => void;
+  storage?: NavbarStorageAdapter;
+  /** Key for the last active item; persistence is off without it */
+  storageKey?: string;
+}): { activeItemId: string | undefined; select: (item: NavItem, currentId: string | undefined) => void } => {
+  const [internalId, setInternalId] = useState(defaultActiveItemId);
+  const hasSelected = useRef(false);
+  const onChangeRef = useRef(onActiveItemChange);
+  onChangeRef.current = onActiveItemChange;
+
+  // Fall back to the default (or nothing) when the active item is removed or hidden
+  const activeItemId = findSelectableId(items, internalId)
+    ?? findSelectableId(items, defaultActiveItemId);
+  const activeItemIdRef = useRef(activeItemId);
+  activeItemIdRef.current = activeItemId;
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // Restore the last active item once; ids that no longer exist are ignored
+  useEffect(() => {
+    if (isControlled || !storageKey) return undefined;
+    let cancelled = false;
+
+    Promise.resolve(storage.get(storageKey))
+      .then(storedId => {
+        if (cancelled || hasSelected.current) return;
+        const restoredId = findSelectableId(itemsRef.current, storedId);
+        if (restoredId === undefined || restoredId === activeItemIdRef.current) return;
+
+        const previousId = activeItemIdRef.current;
+        setInternalId(restoredId);
+        onChangeRef.current?.(restoredId, previousId);
+      })
+      .catch(error => {
+        warnOnce(`restoreActiveItem:${storageKey}`, `Could not restore the active item for "${storageKey}":`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isControlled, storage, storageKey]);
+
+  const select = useCallback((item: NavItem, currentId: string | undefined) => {
+    if (!isSelectableItem(item) || item.id === currentId) return;
+    hasSelected.current = true;
+
+    if (!isControlled) {
+      setInternalId(item.id);
+      if (storageKey) {
+        Promise.resolve(storage.set(storageKey, item.id)).catch(error => {
+          warnOnce(`storeActiveItem:${storageKey}`, `Could not store the active item for "${storageKey}":`, error);
+        });
+      }
+    }
+    onChangeRef.current?.(item.id, currentId);
+  }, [isControlled, storage, storageKey]);
+
+  return { activeItemId, select };
+};
@@ -0,0 +1,176 @@
+/**
+ * Navbar animation presets
+ * Timing or spring per interaction phase, so the navbar can match platform feel
+ */
+
+import { Animated, Easing, EasingFunction } from 'react-native';
+
+/**
+ * Timing animation for a phase
+ */
+export interface NavbarTimingAnimation {
+  type: 'timing';
+  duration: number;
+  /** Default: Easing.bezier(0.16, 1, 0.3, 1) */
+  easing?: EasingFunction;
+}
+
+/**
+ * Spring animation for a phase
+ */
+export interface NavbarSpringAnimation {
+  type: 'spring';
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+}
+
+export type NavbarPhaseAnimation = NavbarTimingAnimation | NavbarSpringAnimation;
+
+/**
+ * Glow shown behind the icon while pressed
+ */
+export interface NavbarGlowAnimation {
+  in: NavbarPhaseAnimation;
+  out: NavbarPhaseAnimation;
+  /** Time (ms) the glow holds at its peak before fading out */
+  hold: number;
+  /** Glow scale at progress 0, 0.5 and 1 */
+  scale: [number, number, number];
+  /** Glow opacity at progress 0, 0.3 and 1 */
+  opacity: [number, number, number];
+}
+
+/**
+ * Fully resolved animation config
+ */
+export interface NavbarAnimationConfig {
+  /** Icon scale-down when a press starts */
+  pressIn: NavbarPhaseAnimation;
+  /** Icon scale-back when a press ends */
+  pressOut: NavbarPhaseAnimation;
+  /** Icon scale while pressed (1 for none) */
+  pressScale: number;
+  /** Active state change: indicator, label and active icon */
+  activeChange: NavbarPhaseAnimation;
+  glow: NavbarGlowAnimation;
+}
+
+export type NavbarAnimationPreset = 'apple' | 'material' | 'snappy' | 'none';
+
+/**
+ * Custom animation config: overrides on top of a preset (default 'apple')
+ */
+export interface NavbarAnimationConfigInput extends Partial<Omit<NavbarAnimationConfig, 'glow'>> {
+  extends?: NavbarAnimationPreset;
+  glow?: Partial<NavbarGlowAnimation>;
+}
+
+/**
+ * Animation: a preset name or a custom config
+ */
+export type NavbarAnimation = NavbarAnimationPreset | NavbarAnimationConfigInput;
+
+// Apple's signature curve
+const APPLE_EASING = Easing.bezier(0.16, 1, 0.3, 1);
+// Material 3 emphasized/standard curve
+const MATERIAL_EASING = Easing.bezier(0.2, 0, 0, 1);
+
+export const NAVBAR_ANIMATIONS: Record<NavbarAnimationPreset, NavbarAnimationConfig> = {
+  apple: {
+    pressIn: { type: 'timing', duration: 200, easing: APPLE_EASING },
+    pressOut: { type: 'timing', duration: 400, easing: APPLE_EASING },
+    pressScale: 0.92,
+    activeChange: { type: 'timing', duration: 400, easing: APPLE_EASING },
+    glow: {
+      in: { type: 'timing', duration: 150, easing: APPLE_EASING },
+      out: { type: 'timing', duration: 300, easing: APPLE_EASING },
+      hold: 50,
+      scale: [0.5, 1.2, 1.5],
+      opacity: [0, 0.6, 0.8],
+    },
+  },
+  material: {
+    pressIn: { type: 'timing', duration: 100, easing: MATERIAL_EASING },
+    pressOut: { type: 'timing', duration: 200, easing: MATERIAL_EASING },
+    pressScale: 0.96,
+    activeChange: { type: 'timing', duration: 300, easing: MATERIAL_EASING },
+    glow: {
+      in: { type: 'timing', duration: 100, easing: MATERIAL_EASING },
+      out: { type: 'timing', duration: 250, easing: MATERIAL_EASING },
+      hold: 0,
+      scale: [0.6, 1.1, 1.3],
+      opacity: [0, 0.4, 0.5],
+    },
+  },
+  snappy: {
+    pressIn: { type: 'spring', stiffness: 600, damping: 30, mass: 1 },
+    pressOut: { type: 'spring', stiffness: 400, damping: 15, mass: 1 },
+    pressScale: 0.9,
+    activeChange: { type: 'spring', stiffness: 500, damping: 30, mass: 1 },
+    glow: {
+      in: { type: 'timing', duration: 80, easing: APPLE_EASING },
+      out: { type: 'timing', duration: 180, easing: APPLE_EASING },
+      hold: 0,
+      scale: [0.5, 1.2, 1.4],
+      opacity: [0, 0.6, 0.8],
+    },
+  },
+  none: {
+    pressIn: { type: 'timing', duration: 0 },
+    pressOut: { type: 'timing', duration: 0 },
+    pressScale: 1,
+    activeChange: { type: 'timing', duration: 0 },
+    glow: {
+      in: { type: 'timing', duration: 0 },
+      out: { type: 'timing', duration: 0 },
+      hold: 0,
+      scale: [1, 1, 1],
+      opacity: [0, 0, 0],
+    },
+  },
+};
+
+/**
+ * Resolve a preset name or custom config into a full animation config
+ */
+export const resolveNavbarAnimation = (animation: NavbarAnimation = 'apple'): NavbarAnimationConfig => {
+  if (typeof animation === 'string') {
+    return NAVBAR_ANIMATIONS[animation] ?? NAVBAR_ANIMATIONS.apple;
+  }
+
+  const { extends: base = 'apple', glow, ...phases } = animation;
+  const preset = NAVBAR_ANIMATIONS[base] ?? NAVBAR_ANIMATIONS.apple;
+  return {
+    ...preset,
+    ...phases,
+    glow: { ...preset.glow, ...glow },
+  };
+};
+
+/**
+ * Build the animation for a phase
+ */
+export const animatePhase = (
+  value: Animated.Value,
+  toValue: number,
+  phase: NavbarPhaseAnimation,
+  useNativeDriver: boolean = true
+): Animated.CompositeAnimation => {
+  if (phase.type === 'spring') {
+    return Animated.spring(value, {
+      toValue,
+      stiffness: phase.stiffness ?? 300,
+      damping: phase.damping ?? 26,
+      mass: phase.mass ?? 1,
+      useNativeDriver,
+    });
+  }
+
+  return Animated.timing(value, {
+    toValue,
+    duration: phase.duration,
+    easing: phase.easing ?? APPLE_EASING,
+    useNativeDriver,
+  });
+};
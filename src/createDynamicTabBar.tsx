@@ -0,0 +1,182 @@
+/**
+ * React Navigation adapter
+ * Builds a `tabBar` renderer for createBottomTabNavigator that maps the
+ * navigator state and descriptors to DynamicNavbar items.
+ *
+ * Only the subset of BottomTabBarProps used here is typed, so the library
+ * does not depend on @react-navigation packages.
+ */
+
+import React from 'react';
+import { Animated, StyleProp, StyleSheet, ViewStyle } from 'react-native';
+import { DynamicNavbar, DynamicNavbarProps, NavItem, NavItemIcon } from './DynamicNavbar';
+import { warnOnce } from './devWarnings';
+import { PLACEHOLDER_ICON } from './icons';
+
+/**
+ * Route of the tab navigator state
+ */
+export interface TabBarRoute {
+  key: string;
+  name: string;
+  params?: object;
+}
+
+/**
+ * Screen options read by the adapter
+ */
+export interface TabBarScreenOptions {
+  title?: string;
+  tabBarLabel?: string | ((...args: any[]) => React.ReactNode);
+  tabBarBadge?: number | string;
+  tabBarAccessibilityLabel?: string;
+  tabBarStyle?: Animated.WithAnimatedValue<StyleProp<ViewStyle>>;
+  tabBarHideOnKeyboard?: boolean;
+}
+
+/**
+ * Subset of BottomTabBarProps from @react-navigation/bottom-tabs
+ */
+export interface DynamicTabBarProps {
+  state: {
+    key: string;
+    index: number;
+    routes: TabBarRoute[];
+  };
+  descriptors: Record<string, { options: TabBarScreenOptions }>;
+  navigation: {
+    emit: (event: {
+      type: 'tabPress' | 'tabLongPress';
+      target?: string;
+      canPreventDefault?: boolean;
+    }) => { type: string; defaultPrevented?: boolean };
+    navigate: (...args: any[]) => void;
+  };
+  /** Safe area insets provided by the navigator */
+  insets?: { top: number; bottom: number; left: number; right: number };
+}
+
+/**
+ * createDynamicTabBar configuration.
+ * Accepts every DynamicNavbar prop except the ones derived from the navigator.
+ */
+export interface DynamicTabBarConfig
+  extends Omit<DynamicNavbarProps, 'items' | 'activeItemId'> {
+  /** Icon per route name */
+  icons?: Record<string, NavItemIcon>;
+  /** Icon resolver, used when a route has no entry in `icons` */
+  getIcon?: (route: TabBarRoute) => NavItemIcon;
+  /**
+   * Extra item fields per route name (e.g. isSpecial, disabled).
+   * Press callbacks are left out: presses always emit `tabPress`/`tabLongPress`, so listen to those instead.
+   */
+  itemOptions?: Record<
+    string,
+    Partial<Omit<NavItem, 'id' | 'onPress' | 'onReselect' | 'onLongPress' | 'onDoubleTap'>>
+  >;
+}
+
+// Used when neither `icons` nor `getIcon` provide an icon for a route
+const FALLBACK_ICON = PLACEHOLDER_ICON;
+
+const getRouteIcon = (
+  route: TabBarRoute,
+  icons: DynamicTabBarConfig['icons'],
+  getIcon: DynamicTabBarConfig['getIcon']
+): NavItemIcon => {
+  const icon = icons?.[route.name] ?? getIcon?.(route);
+
+  if (!icon) {
+    warnOnce(
+      `tabBarIcon:${route.name}`,
+      `createDynamicTabBar: no icon configured for route "${route.name}". ` +
+      'Add it to `icons` or provide `getIcon`.'
+    );
+    return FALLBACK_ICON;
+  }
+
+  return icon;
+};
+
+/**
+ * Tab bar component rendered by the navigator
+ */
+const DynamicTabBar: React.FC<DynamicTabBarProps & { config: DynamicTabBarConfig }> = ({
+  state,
+  descriptors,
+  navigation,
+  insets,
+  config,
+}) => {
+  const { icons, getIcon, itemOptions, ...navbarProps } = config;
+  const focusedRoute = state.routes[state.index];
+  const focusedOptions = focusedRoute ? descriptors[focusedRoute.key]?.options : undefined;
+
+  // Respect tabBarStyle: { display: 'none' } on the focused screen
+  const focusedTabBarStyle = StyleSheet.flatten(focusedOptions?.tabBarStyle as StyleProp<ViewStyle>);
+  if (focusedTabBarStyle?.display === 'none') {
+    return null;
+  }
+
+  const items: NavItem[] = state.routes.map((route, index) => {
+    const options = descriptors[route.key]?.options ?? {};
+    const isFocused = state.index === index;
+    const label = typeof options.tabBarLabel === 'string'
+      ? options.tabBarLabel
+      : options.title ?? route.name;
+
+    return {
+      ...itemOptions?.[route.name],
+      id: route.key,
+      label,
+      icon: itemOptions?.[route.name]?.icon ?? getRouteIcon(route, icons, getIcon),
+      badge: options.tabBarBadge ?? itemOptions?.[route.name]?.badge,
+      accessibilityLabel: options.tabBarAccessibilityLabel
+        ?? itemOptions?.[route.name]?.accessibilityLabel,
+      onPress: () => {
+        const event = navigation.emit({
+          type: 'tabPress',
+          target: route.key,
+          canPreventDefault: true,
+        });
+
+        if (!isFocused && !event.defaultPrevented) {
+          navigation.navigate({ name: route.name, merge: true });
+        }
+      },
+      onLongPress: () => {
+        navigation.emit({
+          type: 'tabLongPress',
+          target: route.key,
+        });
+      },
+      // Would take the focused tab's press or a second tap without emitting tabPress
+      onReselect: undefined,
+      onDoubleTap: undefined,
+    };
+  });
+
+  return (
+    <DynamicNavbar
+      insets={insets}
+      {...navbarProps}
+      hideOnKeyboard={focusedOptions?.tabBarHideOnKeyboard ?? navbarProps.hideOnKeyboard}
+      items={items}
+      activeItemId={focusedRoute?.key}
+    />
+  );
+};
+
+/**
+ * Create a `tabBar` renderer for createBottomTabNavigator
+ *
+ * @example
+ * <Tab.Navigator tabBar={createDynamicTabBar({ theme: 'glass', icons })}>
+ */
+export const createDynamicTabBar = (config: DynamicTabBarConfig = {}) => {
+  const renderTabBar = (props: DynamicTabBarProps) => (
+    <DynamicTabBar {...props} config={config} />
+  );
+
+  return renderTabBar;
+};
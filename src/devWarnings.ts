@@ -0,0 +1,33 @@
+/**
+ * Development-time warnings
+ * Each distinct problem is reported once, so re-renders don't repeat it
+ */
+
+const reported = new Set<string>();
+
+const reportOnce = (
+  key: string,
+  message: string,
+  details: unknown[],
+  log: (message: string, ...details: unknown[]) => void
+) => {
+  if (!__DEV__ || reported.has(key)) return;
+  reported.add(key);
+  log(`[DynamicNavbar] ${message}`, ...details);
+};
+
+/**
+ * Warn about a likely mistake once per key; `details` (e.g. a caught error) are logged after the message.
+ * Used internally across the navbar.
+ */
+export const warnOnce = (key: string, message: string, ...details: unknown[]): void => {
+  reportOnce(key, message, details, console.warn);
+};
+
+/**
+ * Report a problem that breaks rendering once per key.
+ * Used internally across the navbar.
+ */
+export const errorOnce = (key: string, message: string, ...details: unknown[]): void => {
+  reportOnce(key, message, details, console.error);
+};
@@ -0,0 +1,78 @@
+/**
+ * Haptic feedback
+ * The navbar only decides when to fire; the app supplies the adapter
+ * (expo-haptics, react-native-haptic-feedback, ...) so there is no hard dependency
+ */
+
+import type { NavItem } from './DynamicNavbar';
+import { warnOnce } from './devWarnings';
+
+/**
+ * Interactions that can trigger feedback
+ */
+export type NavbarHapticEvent = 'select' | 'reselect' | 'special' | 'longPress' | 'disabled';
+
+/**
+ * Feedback types passed to the adapter
+ */
+export type NavbarHapticType =
+  | 'selection'
+  | 'impactLight'
+  | 'impactMedium'
+  | 'impactHeavy'
+  | 'success'
+  | 'warning'
+  | 'error';
+
+/**
+ * Plays a feedback type using the app's haptics library
+ */
+export type NavbarHapticsAdapter = (type: NavbarHapticType, event: NavbarHapticEvent) => void;
+
+/**
+ * Haptics configuration: the adapter plus the feedback type per interaction
+ * (`false` turns an interaction off)
+ */
+export interface NavbarHapticsOptions {
+  adapter: NavbarHapticsAdapter;
+  /** Pressing an inactive item (default 'selection') */
+  select?: NavbarHapticType | false;
+  /** Pressing the active item (default 'impactLight') */
+  reselect?: NavbarHapticType | false;
+  /** Pressing a special item (default 'impactMedium') */
+  special?: NavbarHapticType | false;
+  /** Long-pressing an item (default 'impactHeavy') */
+  longPress?: NavbarHapticType | false;
+  /** Pressing a disabled item (default 'warning') */
+  disabled?: NavbarHapticType | false;
+}
+
+const DEFAULT_HAPTIC_TYPES: Record<NavbarHapticEvent, NavbarHapticType> = {
+  select: 'selection',
+  reselect: 'impactLight',
+  special: 'impactMedium',
+  longPress: 'impactHeavy',
+  disabled: 'warning',
+};
+
+/**
+ * Fire feedback for an item interaction, unless the item or event opts out
+ */
+export const triggerHaptic = (
+  haptics: NavbarHapticsAdapter | NavbarHapticsOptions | undefined,
+  item: NavItem,
+  event: NavbarHapticEvent
+): void => {
+  if (!haptics || item.haptics === false) return;
+
+  const options = typeof haptics === 'function' ? { adapter: haptics } : haptics;
+  const type = options[event] ?? DEFAULT_HAPTIC_TYPES[event];
+  if (type === false) return;
+
+  try {
+    options.adapter(type, event);
+  } catch (error) {
+    // Feedback must never break the press itself
+    warnOnce('hapticsAdapter', 'Haptics adapter threw:', error);
+  }
+};
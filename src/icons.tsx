@@ -0,0 +1,231 @@
+/**
+ * Icon rendering for nav items (vector, image, SVG and custom icons)
+ */
+
+import React from 'react';
+import { Animated, Image, StyleSheet, View } from 'react-native';
+import type { NavItemIcon } from './DynamicNavbar';
+import type { NavbarThemeColors } from './theme';
+import { errorOnce } from './devWarnings';
+
+/**
+ * Icon font component, e.g. Ionicons from react-native-vector-icons or @expo/vector-icons
+ */
+export type IconFamilyComponent = React.ComponentType<{ name: string; size?: number; color?: string }>;
+
+/**
+ * Known icon family names. Registered families can be added to the type via declaration merging:
+ *
+ * @example
+ * declare module 'react-native-dynamic-navbar' {
+ *   interface NavbarIconFamilies {
+ *     AntDesign: true;
+ *   }
+ * }
+ */
+export interface NavbarIconFamilies {
+  Ionicons: true;
+  MaterialIcons: true;
+  FontAwesome: true;
+  Feather: true;
+  MaterialCommunityIcons: true;
+}
+
+export type NavbarIconFamily = Extract<keyof NavbarIconFamilies, string>;
+
+const registeredFamilies = new Map<string, IconFamilyComponent>();
+
+/**
+ * Register an icon font component under a family name
+ *
+ * @example
+ * import { Ionicons, AntDesign } from '@expo/vector-icons';
+ * registerIconFamily('Ionicons', Ionicons);
+ * registerIconFamily('AntDesign', AntDesign);
+ */
+export const registerIconFamily = (name: string, component: IconFamilyComponent): void => {
+  registeredFamilies.set(name, component);
+};
+
+/**
+ * Load a built-in family from react-native-vector-icons, which is an optional peer
+ */
+const loadVectorIconsFamily = (family: string): IconFamilyComponent | undefined => {
+  try {
+    switch (family) {
+      case 'Ionicons':
+        return require('react-native-vector-icons/Ionicons').default;
+      case 'MaterialIcons':
+        return require('react-native-vector-icons/MaterialIcons').default;
+      case 'FontAwesome':
+        return require('react-native-vector-icons/FontAwesome').default;
+      case 'Feather':
+        return require('react-native-vector-icons/Feather').default;
+      case 'MaterialCommunityIcons':
+        return require('react-native-vector-icons/MaterialCommunityIcons').default;
+      default:
+        return undefined;
+    }
+  } catch {
+    // react-native-vector-icons is not installed
+    return undefined;
+  }
+};
+
+/**
+ * Whether a family is registered or available from react-native-vector-icons
+ */
+export const hasIconFamily = (family: string): boolean => (
+  registeredFamilies.has(family) || loadVectorIconsFamily(family) !== undefined
+);
+
+/**
+ * Get icon component for a family: registered first, then react-native-vector-icons
+ */
+const getIconComponent = (family: string): IconFamilyComponent | undefined => {
+  const registered = registeredFamilies.get(family);
+  if (registered) return registered;
+
+  const builtIn = loadVectorIconsFamily(family);
+  if (builtIn) {
+    registeredFamilies.set(family, builtIn);
+    return builtIn;
+  }
+
+  errorOnce(
+    `iconFamily:${family}`,
+    `Icon family "${family}" is not registered. ` +
+    `Call registerIconFamily('${family}', Component) (e.g. with @expo/vector-icons), ` +
+    'or install react-native-vector-icons for the built-in families.'
+  );
+  return undefined;
+};
+
+/**
+ * Three-dot icon drawn with views, so the "More" item needs no icon font
+ */
+export const MORE_ICON: NavItemIcon = {
+  type: 'custom',
+  render: ({ color, size }) => (
+    <View style={[styles.dots, { width: size, height: size }]}>
+      {[0, 1, 2].map(index => (
+        <View key={index} style={[styles.dot, { backgroundColor: color }]} />
+      ))}
+    </View>
+  ),
+};
+
+/**
+ * Hollow circle drawn with views, used when an item has no usable icon
+ */
+export const PLACEHOLDER_ICON: NavItemIcon = {
+  type: 'custom',
+  render: ({ color, size }) => (
+    <View
+      style={[
+        styles.ring,
+        { width: size * 0.75, height: size * 0.75, borderRadius: size * 0.375, borderColor: color },
+      ]}
+    />
+  ),
+};
+
+/**
+ * Render icon based on type (vector, image, SVG or custom)
+ */
+export const renderIcon = (
+  icon: NavItemIcon,
+  isActive: boolean,
+  isSpecial: boolean,
+  colors: NavbarThemeColors,
+  animatedProgress?: Animated.Value
+) => {
+  // Custom icon (render function, e.g. Lottie or an avatar)
+  if (icon.type === 'custom') {
+    const iconSize = icon.size || 24;
+    return icon.render({
+      isActive,
+      isSpecial,
+      color: isSpecial ? colors.specialIcon : isActive ? colors.iconActive : colors.icon,
+      size: isSpecial ? iconSize + 4 : iconSize,
+      animatedProgress,
+    });
+  }
+
+  // SVG icon (from imported SVG files)
+  if (icon.type === 'svg') {
+    const SvgComponent = icon.component;
+    const iconSize = icon.width || icon.height || 24;
+    const iconColor = icon.color || (isActive ? colors.iconActive : colors.icon);
+    const finalColor = isSpecial ? colors.specialIcon : iconColor;
+    const finalSize = isSpecial ? iconSize + 4 : iconSize;
+
+    return (
+      <SvgComponent
+        width={finalSize}
+        height={finalSize}
+        color={finalColor}
+        fill={finalColor}
+      />
+    );
+  }
+
+  // Image/PNG/JPEG icon
+  if (icon.type === 'image') {
+    const imageSize = icon.width || icon.height || 24;
+    const imageStyle: any = {
+      width: icon.width || imageSize,
+      height: icon.height || imageSize,
+    };
+
+    // Tint follows the active state like vector and SVG icons
+    const tintColor = isActive ? icon.activeTintColor ?? icon.tintColor : icon.tintColor;
+    if (tintColor) {
+      imageStyle.tintColor = tintColor;
+    }
+
+    return (
+      <Image
+        source={icon.source}
+        style={imageStyle}
+        resizeMode="contain"
+      />
+    );
+  }
+
+  // Vector icon (from icon families)
+  const IconComponent = getIconComponent(icon.family);
+  const iconSize = icon.size || 24;
+  const iconColor = isActive ? colors.iconActive : colors.icon;
+
+  // Keep the item's size while the family is missing
+  if (!IconComponent) {
+    const finalSize = isSpecial ? iconSize + 4 : iconSize;
+    return <View style={{ width: finalSize, height: finalSize }} />;
+  }
+
+  return (
+    <IconComponent
+      name={icon.name}
+      size={isSpecial ? iconSize + 4 : iconSize}
+      color={isSpecial ? colors.specialIcon : iconColor}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  dots: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 2,
+  },
+  dot: {
+    width: 4.5,
+    height: 4.5,
+    borderRadius: 2.25,
+  },
+  ring: {
+    borderWidth: 2,
+  },
+});
@@ -1,10 +1,89 @@
 export { DynamicNavbar } from './DynamicNavbar';
+export { createDynamicTabBar } from './createDynamicTabBar';
+export { NavbarThemeProvider, useNavbarTheme } from './NavbarThemeProvider';
+export { useNavbarScrollHandler } from './useNavbarScrollHandler';
+export { useNavbarKeyboardSuppression } from './useNavbarKeyboard';
+export { matchPath, resolveActiveItemId } from './routeMatching';
+export { createMemoryStorage } from './activeItemState';
+export { registerIconFamily } from './icons';
+export { NAVBAR_THEMES, NAVBAR_LIGHT_THEMES, resolveNavbarTheme } from './theme';
+export { NAVBAR_ANIMATIONS, resolveNavbarAnimation } from './animation';
+export { createNavbarFromConfig, validateNavbarConfig } from './navbarConfig';
 export type {
   DynamicNavbarProps,
   NavItem,
   NavItemIcon,
-  NavbarTheme,
+  NavItemBadge,
+  NavItemPressEvent,
+  NavItemRenderProps,
+  NavItemRenderer,
+  NavItemRenderers,
+  CustomIcon,
+  CustomIconRenderProps,
+  NavbarFloatingOptions,
+  NavbarPosition,
+  NavbarLabelVisibility,
   VectorIcon,
   ImageIcon,
   SvgIcon,
 } from './DynamicNavbar';
+export type {
+  DynamicTabBarConfig,
+  DynamicTabBarProps,
+  TabBarRoute,
+  TabBarScreenOptions,
+} from './createDynamicTabBar';
+export type { NavbarScrollController, NavbarScrollOptions } from './useNavbarScrollHandler';
+export type { NavbarKeyboardMode } from './useNavbarKeyboard';
+export type {
+  NavbarVisibilityContext,
+  NavItemVisibilityCondition,
+  NavItemVisibilityPredicate,
+} from './itemVisibility';
+export type {
+  NavbarAnimation,
+  NavbarAnimationPreset,
+  NavbarAnimationConfig,
+  NavbarAnimationConfigInput,
+  NavbarPhaseAnimation,
+  NavbarTimingAnimation,
+  NavbarSpringAnimation,
+  NavbarGlowAnimation,
+} from './animation';
+export type {
+  NavbarConfig,
+  NavbarConfigItem,
+  NavbarConfigItemAction,
+  NavbarConfigIcon,
+  NavbarConfigParams,
+  NavbarConfigFeatures,
+  NavbarConfigError,
+  NavbarConfigAction,
+  NavbarConfigResolvers,
+  NavbarConfigResult,
+} from './navbarConfig';
+export type { NavItemAction, NavItemActionLayout } from './ActionMenu';
+export type { NavItemMatcher } from './routeMatching';
+export type { IconFamilyComponent, NavbarIconFamilies, NavbarIconFamily } from './icons';
+export type { NavbarStorageAdapter } from './activeItemState';
+export type {
+  NavbarHapticEvent,
+  NavbarHapticType,
+  NavbarHapticsAdapter,
+  NavbarHapticsOptions,
+} from './haptics';
+export type { NavbarIndicatorShape, NavbarIndicatorSpring } from './SlidingIndicator';
+export type { NavbarThemeProviderProps } from './NavbarThemeProvider';
+export type {
+  NavbarTheme,
+  NavbarThemePreset,
+  NavbarColorScheme,
+  NavbarColorSchemePreference,
+  NavbarThemeConfig,
+  NavbarThemeTokens,
+  NavbarThemeColors,
+  NavbarThemeBackground,
+  NavbarThemeShadow,
+  NavbarThemeBorder,
+  NavbarThemeTypography,
+} from './theme';
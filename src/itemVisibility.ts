@@ -0,0 +1,201 @@
+/**
+ * Conditional item visibility
+ * Evaluates item visibility conditions against the navbar context and animates items in and out
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Animated } from 'react-native';
+import type { NavItem } from './DynamicNavbar';
+import { NavbarPhaseAnimation, animatePhase } from './animation';
+import { warnOnce } from './devWarnings';
+
+/**
+ * App state that visibility conditions are evaluated against
+ */
+export interface NavbarVisibilityContext {
+  /** Roles of the current user */
+  roles?: string[];
+  /** Enabled feature flags: a list of keys or a key → enabled map */
+  flags?: string[] | Record<string, boolean | undefined>;
+  /** Anything else predicates need (plan, locale, ...) */
+  [key: string]: unknown;
+}
+
+/**
+ * Predicate deciding whether an item is shown
+ */
+export type NavItemVisibilityPredicate = (context: NavbarVisibilityContext) => boolean;
+
+/**
+ * When an item is shown. Every given rule must pass:
+ * - `roles`: the user has at least one of the roles
+ * - `flags`: every flag is enabled
+ * - `when`: the predicate returns true
+ */
+export type NavItemVisibilityCondition =
+  | NavItemVisibilityPredicate
+  | {
+    roles?: string[];
+    flags?: string[];
+    when?: NavItemVisibilityPredicate;
+  };
+
+const isFlagEnabled = (flags: NavbarVisibilityContext['flags'], key: string): boolean => (
+  Array.isArray(flags) ? flags.includes(key) : flags?.[key] === true
+);
+
+/**
+ * Whether a condition passes for the context
+ */
+export const matchesVisibilityCondition = (
+  condition: NavItemVisibilityCondition,
+  context: NavbarVisibilityContext
+): boolean => {
+  if (typeof condition === 'function') {
+    return condition(context);
+  }
+
+  const { roles, flags, when } = condition;
+  if (roles?.length && !roles.some(role => context.roles?.includes(role))) return false;
+  if (flags?.length && !flags.every(key => isFlagEnabled(context.flags, key))) return false;
+  return when ? when(context) : true;
+};
+
+/**
+ * Mark items whose condition fails as hidden, so the rest of the navbar
+ * (overflow, active item, route matching) only has to check `visible`
+ */
+export const applyItemVisibility = (items: NavItem[], context: NavbarVisibilityContext = {}): NavItem[] => {
+  if (!items.some(item => item.visibleWhen !== undefined)) return items;
+
+  return items.map(item => {
+    if (item.visibleWhen === undefined || item.visible === false) return item;
+    try {
+      return matchesVisibilityCondition(item.visibleWhen, context) ? item : { ...item, visible: false };
+    } catch (error) {
+      // A throwing predicate hides its item instead of breaking the navbar
+      warnOnce(`visibleWhen:${item.id}`, `Visibility condition for "${item.id}" threw:`, error);
+      return { ...item, visible: false };
+    }
+  });
+};
+
+/**
+ * Rendered item with its presence progress (0 hidden, 1 shown)
+ */
+export interface NavItemPresence {
+  item: NavItem;
+  /** Set while the item animates in or out */
+  presence?: Animated.Value;
+  /** The item has been removed and is animating out */
+  isLeaving: boolean;
+}
+
+/**
+ * Keep removed items rendered while they animate out and animate added items in.
+ * Items present on mount appear without animation, and so do items in `overflowIds`
+ * (before or after the change), which move to or from the "More" menu rather than appear or disappear.
+ * Used internally by DynamicNavbar.
+ */
+export const useItemPresence = (
+  items: NavItem[],
+  overflowIds: ReadonlySet<string>,
+  phase: NavbarPhaseAnimation,
+  reduceMotion: boolean
+): NavItemPresence[] => {
+  const previousItems = useRef(items);
+  const previousOverflowIds = useRef(overflowIds);
+  // Presence values of items currently animating
+  const presences = useRef(new Map<string, Animated.Value>());
+  // Removed items with the index they were rendered at
+  const leaving = useRef(new Map<string, { item: NavItem; index: number }>());
+  // Animations to start once the new items are committed
+  const pending = useRef(new Map<string, number>());
+  const [, setFinishedCount] = useState(0);
+
+  // Diff against the previous items during render, so added items start hidden
+  if (previousItems.current !== items) {
+    const ids = new Set(items.map(item => item.id));
+    const previousIds = new Set(previousItems.current.map(item => item.id));
+
+    if (reduceMotion) {
+      presences.current.clear();
+      leaving.current.clear();
+      pending.current.clear();
+    } else {
+      const isMoved = (id: string) => overflowIds.has(id) || previousOverflowIds.current.has(id);
+      const settle = (id: string) => {
+        presences.current.delete(id);
+        leaving.current.delete(id);
+        pending.current.delete(id);
+      };
+
+      items.forEach(item => {
+        if (previousIds.has(item.id)) return;
+        if (isMoved(item.id)) {
+          settle(item.id);
+          return;
+        }
+        // Items removed and re-added mid-animation continue from where they are
+        if (!presences.current.has(item.id)) {
+          presences.current.set(item.id, new Animated.Value(0));
+        }
+        leaving.current.delete(item.id);
+        pending.current.set(item.id, 1);
+      });
+
+      previousItems.current.forEach((item, index) => {
+        if (ids.has(item.id)) return;
+        if (isMoved(item.id)) {
+          settle(item.id);
+          return;
+        }
+        if (!presences.current.has(item.id)) {
+          presences.current.set(item.id, new Animated.Value(1));
+        }
+        leaving.current.set(item.id, { item, index });
+        pending.current.set(item.id, 0);
+      });
+    }
+
+    previousItems.current = items;
+    previousOverflowIds.current = overflowIds;
+  }
+
+  useEffect(() => {
+    if (pending.current.size === 0) return;
+
+    pending.current.forEach((toValue, id) => {
+      const presence = presences.current.get(id);
+      if (!presence) return;
+
+      // Layout (flex, height) is animated, so this runs on the JS driver
+      animatePhase(presence, toValue, phase, false).start(({ finished }) => {
+        if (!finished || presences.current.get(id) !== presence) return;
+        presences.current.delete(id);
+        if (toValue === 0) leaving.current.delete(id);
+        setFinishedCount(count => count + 1);
+      });
+    });
+    pending.current.clear();
+  }, [items, phase]);
+
+  const rendered: NavItemPresence[] = items.map(item => ({
+    item,
+    presence: presences.current.get(item.id),
+    isLeaving: false,
+  }));
+
+  // Leaving items stay where they were, clamped to the new length
+  [...leaving.current.values()]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ item, index }) => {
+      rendered.splice(Math.min(index, rendered.length), 0, {
+        item,
+        presence: presences.current.get(item.id),
+        isLeaving: true,
+      });
+    });
+
+  return rendered;
+};
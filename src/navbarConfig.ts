@@ -0,0 +1,512 @@
+/**
+ * Serializable navbar config
+ * A JSON format for driving the navbar from remote config or CMS data.
+ * Functions and assets are referenced by name and resolved by createNavbarFromConfig.
+ */
+
+import type {
+  DynamicNavbarProps,
+  NavItem,
+  NavItemBadge,
+  NavItemIcon,
+} from './DynamicNavbar';
+import type { NavItemAction, NavItemActionLayout } from './ActionMenu';
+import type { NavbarAnimationPreset } from './animation';
+import { NAVBAR_ANIMATIONS } from './animation';
+import type { NavbarTheme } from './theme';
+import { NAVBAR_THEMES } from './theme';
+import { hasIconFamily } from './icons';
+
+/**
+ * Icon by vector family and name, or by key in the `assets` passed to createNavbarFromConfig
+ */
+export type NavbarConfigIcon =
+  | { type: 'vector'; family: string; name: string; size?: number }
+  | { type: 'asset'; key: string };
+
+/**
+ * JSON-safe parameters passed to an action
+ */
+export type NavbarConfigParams = Record<string, string | number | boolean | null>;
+
+/**
+ * Child action of an expandable item
+ */
+export interface NavbarConfigItemAction {
+  id: string;
+  label?: string;
+  icon: NavbarConfigIcon;
+  /** Action name in the `actions` map */
+  action: string;
+  params?: NavbarConfigParams;
+  accessibilityLabel?: string;
+  color?: string;
+}
+
+/**
+ * Serializable nav item
+ */
+export interface NavbarConfigItem {
+  id: string;
+  label?: string;
+  icon: NavbarConfigIcon;
+  activeIcon?: NavbarConfigIcon;
+  /** Action name called on press */
+  action: string;
+  /** Action names for the other press events */
+  reselectAction?: string;
+  longPressAction?: string;
+  doubleTapAction?: string;
+  disabledPressAction?: string;
+  /** Passed to every action of the item */
+  params?: NavbarConfigParams;
+  isSpecial?: boolean;
+  selectable?: boolean;
+  visible?: boolean;
+  /** Roles and flags checked against the navbar `context` */
+  visibleWhen?: { roles?: string[]; flags?: string[] };
+  disabled?: boolean;
+  badge?: number | string | NavItemBadge;
+  accessibilityLabel?: string;
+  accessibilityHint?: string;
+  match?: string | string[];
+  priority?: number;
+  actions?: NavbarConfigItemAction[];
+  actionLayout?: NavItemActionLayout;
+}
+
+/**
+ * Navbar feature toggles and layout options that can be set from config
+ */
+export type NavbarConfigFeatures = Pick<
+  DynamicNavbarProps,
+  | 'position'
+  | 'height'
+  | 'layout'
+  | 'direction'
+  | 'colorScheme'
+  | 'showLabels'
+  | 'labelVisibility'
+  | 'labelPosition'
+  | 'enableGlow'
+  | 'indicatorMode'
+  | 'indicatorShape'
+  | 'maxVisibleItems'
+  | 'hideOnKeyboard'
+  | 'keyboardMode'
+>;
+
+/**
+ * Serializable navbar config
+ */
+export interface NavbarConfig {
+  items: NavbarConfigItem[];
+  theme?: NavbarTheme;
+  animation?: NavbarAnimationPreset;
+  features?: NavbarConfigFeatures;
+}
+
+/**
+ * Problem found in a config, with the path of the offending value (e.g. "items[2].icon.family")
+ */
+export interface NavbarConfigError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Function referenced by name from the config
+ */
+export type NavbarConfigAction = (params: NavbarConfigParams | undefined, itemId: string) => void;
+
+export interface NavbarConfigResolvers {
+  /** Actions by name */
+  actions: Record<string, NavbarConfigAction>;
+  /** Icons by asset key, e.g. { logo: { type: 'image', source: require('./logo.png') } } */
+  assets?: Record<string, NavItemIcon>;
+}
+
+export type NavbarConfigResult =
+  | { ok: true; props: DynamicNavbarProps; errors: [] }
+  | { ok: false; props: null; errors: NavbarConfigError[] };
+
+// Allowed values for string options, used to validate config values
+const FEATURE_VALUES: Partial<Record<keyof NavbarConfigFeatures, readonly unknown[]>> = {
+  position: ['top', 'bottom', 'left', 'right'],
+  layout: ['docked', 'floating'],
+  direction: ['ltr', 'rtl'],
+  colorScheme: ['light', 'dark', 'system'],
+  labelVisibility: ['always', 'selected', 'never', 'auto'],
+  labelPosition: ['below', 'beside', 'auto'],
+  indicatorMode: ['item', 'sliding'],
+  indicatorShape: ['dot', 'underline', 'pill', 'highlight'],
+  keyboardMode: ['hide', 'behind', 'above'],
+  maxVisibleItems: ['auto'],
+};
+
+type FeatureType = 'string' | 'number' | 'boolean';
+
+const FEATURE_TYPES: Record<keyof NavbarConfigFeatures, FeatureType | FeatureType[]> = {
+  position: 'string',
+  height: 'number',
+  layout: 'string',
+  direction: 'string',
+  colorScheme: 'string',
+  showLabels: 'boolean',
+  labelVisibility: 'string',
+  labelPosition: 'string',
+  enableGlow: 'boolean',
+  indicatorMode: 'string',
+  indicatorShape: 'string',
+  maxVisibleItems: ['number', 'string'],
+  hideOnKeyboard: 'boolean',
+  keyboardMode: 'string',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// Own keys only, so names like "constructor" don't match Object.prototype
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const describe = (value: unknown): string => (
+  Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value
+);
+
+/**
+ * Collects errors while walking the config
+ */
+const createReporter = () => {
+  const errors: NavbarConfigError[] = [];
+  return {
+    errors,
+    report: (path: string, message: string) => {
+      errors.push({ path, message });
+    },
+    expectString: (value: unknown, path: string, required = false): boolean => {
+      if (value === undefined && !required) return true;
+      if (typeof value === 'string' && value.length > 0) return true;
+      errors.push({ path, message: `Expected a non-empty string, got ${describe(value)}` });
+      return false;
+    },
+    expectType: (value: unknown, type: 'number' | 'boolean', path: string): void => {
+      if (value !== undefined && typeof value !== type) {
+        errors.push({ path, message: `Expected a ${type}, got ${describe(value)}` });
+      }
+    },
+  };
+};
+
+type Reporter = ReturnType<typeof createReporter>;
+
+const validateIcon = (icon: unknown, path: string, reporter: Reporter) => {
+  if (!isObject(icon)) {
+    reporter.report(path, `Expected an icon object, got ${describe(icon)}`);
+    return;
+  }
+
+  if (icon.type === 'vector') {
+    reporter.expectString(icon.family, `${path}.family`, true);
+    reporter.expectString(icon.name, `${path}.name`, true);
+    reporter.expectType(icon.size, 'number', `${path}.size`);
+  } else if (icon.type === 'asset') {
+    reporter.expectString(icon.key, `${path}.key`, true);
+  } else {
+    reporter.report(`${path}.type`, `Expected "vector" or "asset", got ${JSON.stringify(icon.type)}`);
+  }
+};
+
+const validateParams = (params: unknown, path: string, reporter: Reporter) => {
+  if (params === undefined) return;
+  if (!isObject(params)) {
+    reporter.report(path, `Expected an object, got ${describe(params)}`);
+    return;
+  }
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+      reporter.report(`${path}.${key}`, `Expected a string, number, boolean or null, got ${describe(value)}`);
+    }
+  });
+};
+
+const validateItem = (item: unknown, path: string, reporter: Reporter) => {
+  if (!isObject(item)) {
+    reporter.report(path, `Expected an item object, got ${describe(item)}`);
+    return;
+  }
+
+  reporter.expectString(item.id, `${path}.id`, true);
+  reporter.expectString(item.label, `${path}.label`);
+  reporter.expectString(item.action, `${path}.action`, true);
+  (['reselectAction', 'longPressAction', 'doubleTapAction', 'disabledPressAction'] as const).forEach(key => {
+    reporter.expectString(item[key], `${path}.${key}`);
+  });
+  reporter.expectString(item.accessibilityLabel, `${path}.accessibilityLabel`);
+  reporter.expectString(item.accessibilityHint, `${path}.accessibilityHint`);
+  (['isSpecial', 'selectable', 'visible', 'disabled'] as const).forEach(key => {
+    reporter.expectType(item[key], 'boolean', `${path}.${key}`);
+  });
+  reporter.expectType(item.priority, 'number', `${path}.priority`);
+  validateIcon(item.icon, `${path}.icon`, reporter);
+  if (item.activeIcon !== undefined) {
+    validateIcon(item.activeIcon, `${path}.activeIcon`, reporter);
+  }
+  validateParams(item.params, `${path}.params`, reporter);
+
+  if (item.badge !== undefined && !['number', 'string'].includes(typeof item.badge) && !isObject(item.badge)) {
+    reporter.report(`${path}.badge`, `Expected a number, string or badge object, got ${describe(item.badge)}`);
+  }
+
+  if (item.match !== undefined) {
+    const patterns = Array.isArray(item.match) ? item.match : [item.match];
+    patterns.forEach((pattern, index) => {
+      reporter.expectString(pattern, Array.isArray(item.match) ? `${path}.match[${index}]` : `${path}.match`, true);
+    });
+  }
+
+  if (item.visibleWhen !== undefined) {
+    if (!isObject(item.visibleWhen)) {
+      reporter.report(`${path}.visibleWhen`, `Expected an object, got ${describe(item.visibleWhen)}`);
+    } else {
+      const condition = item.visibleWhen;
+      Object.keys(condition).forEach(key => {
+        if (key !== 'roles' && key !== 'flags') {
+          reporter.report(`${path}.visibleWhen.${key}`, `Unknown condition "${key}". Expected "roles" or "flags"`);
+          return;
+        }
+        const values = condition[key];
+        if (!Array.isArray(values)) {
+          reporter.report(`${path}.visibleWhen.${key}`, `Expected an array of strings, got ${describe(values)}`);
+          return;
+        }
+        values.forEach((value, index) => {
+          reporter.expectString(value, `${path}.visibleWhen.${key}[${index}]`, true);
+        });
+      });
+    }
+  }
+
+  if (item.actionLayout !== undefined && item.actionLayout !== 'radial' && item.actionLayout !== 'stack') {
+    reporter.report(`${path}.actionLayout`, `Expected "radial" or "stack", got ${JSON.stringify(item.actionLayout)}`);
+  }
+
+  if (item.actions !== undefined) {
+    if (!Array.isArray(item.actions)) {
+      reporter.report(`${path}.actions`, `Expected an array, got ${describe(item.actions)}`);
+      return;
+    }
+
+    const actionIds = new Set<string>();
+    item.actions.forEach((action: unknown, index) => {
+      const actionPath = `${path}.actions[${index}]`;
+      if (!isObject(action)) {
+        reporter.report(actionPath, `Expected an action object, got ${describe(action)}`);
+        return;
+      }
+
+      if (reporter.expectString(action.id, `${actionPath}.id`, true)) {
+        if (actionIds.has(action.id as string)) {
+          reporter.report(`${actionPath}.id`, `Duplicate action id "${action.id}"`);
+        }
+        actionIds.add(action.id as string);
+      }
+      reporter.expectString(action.label, `${actionPath}.label`);
+      reporter.expectString(action.action, `${actionPath}.action`, true);
+      validateIcon(action.icon, `${actionPath}.icon`, reporter);
+      validateParams(action.params, `${actionPath}.params`, reporter);
+    });
+  }
+};
+
+/**
+ * Check that a value has the shape of a NavbarConfig.
+ * Returns every problem found; an empty array means the config is valid.
+ * Names of actions and assets are checked by createNavbarFromConfig.
+ */
+export const validateNavbarConfig = (config: unknown): NavbarConfigError[] => {
+  const reporter = createReporter();
+
+  if (!isObject(config)) {
+    reporter.report('', `Expected a config object, got ${describe(config)}`);
+    return reporter.errors;
+  }
+
+  if (!Array.isArray(config.items)) {
+    reporter.report('items', `Expected an array of items, got ${describe(config.items)}`);
+  } else {
+    const ids = new Set<string>();
+    config.items.forEach((item: unknown, index) => {
+      validateItem(item, `items[${index}]`, reporter);
+
+      const id = isObject(item) ? item.id : undefined;
+      if (typeof id === 'string') {
+        if (ids.has(id)) {
+          reporter.report(`items[${index}].id`, `Duplicate item id "${id}"`);
+        }
+        ids.add(id);
+      }
+    });
+  }
+
+  if (config.theme !== undefined) {
+    if (typeof config.theme === 'string') {
+      if (!hasOwn(NAVBAR_THEMES, config.theme)) {
+        reporter.report('theme', `Unknown theme preset "${config.theme}"`);
+      }
+    } else if (!isObject(config.theme)) {
+      reporter.report('theme', `Expected a theme preset or theme object, got ${describe(config.theme)}`);
+    }
+  }
+
+  if (config.animation !== undefined && !(
+    typeof config.animation === 'string' && hasOwn(NAVBAR_ANIMATIONS, config.animation)
+  )) {
+    reporter.report('animation', `Unknown animation preset ${JSON.stringify(config.animation)}`);
+  }
+
+  if (config.features !== undefined) {
+    if (!isObject(config.features)) {
+      reporter.report('features', `Expected an object, got ${describe(config.features)}`);
+    } else {
+      Object.entries(config.features).forEach(([key, value]) => {
+        const path = `features.${key}`;
+        if (!hasOwn(FEATURE_TYPES, key)) {
+          reporter.report(path, `Unknown feature "${key}"`);
+          return;
+        }
+
+        const type = FEATURE_TYPES[key as keyof NavbarConfigFeatures];
+        const types: string[] = Array.isArray(type) ? type : [type];
+        if (!types.includes(typeof value)) {
+          reporter.report(path, `Expected a ${types.join(' or ')}, got ${describe(value)}`);
+        } else {
+          // Allowed values only restrict strings (e.g. maxVisibleItems is a number or 'auto')
+          const allowed = FEATURE_VALUES[key as keyof NavbarConfigFeatures];
+          if (allowed && typeof value === 'string' && !allowed.includes(value)) {
+            reporter.report(path, `Expected one of ${allowed.map(option => `"${option}"`).join(', ')}, got "${value}"`);
+          }
+        }
+      });
+    }
+  }
+
+  return reporter.errors;
+};
+
+/**
+ * Turn a serializable config (object or JSON string) into DynamicNavbar props,
+ * resolving action names and asset keys. Structure and name errors are returned together.
+ *
+ * @example
+ * const result = createNavbarFromConfig(remoteJson, {
+ *   actions: { navigate: params => navigation.navigate(String(params?.screen)) },
+ *   assets: { logo: { type: 'image', source: require('./logo.png') } },
+ * });
+ * if (result.ok) return <DynamicNavbar {...result.props} />;
+ */
+export const createNavbarFromConfig = (
+  json: unknown,
+  { actions, assets = {} }: NavbarConfigResolvers
+): NavbarConfigResult => {
+  let config: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      return {
+        ok: false,
+        props: null,
+        errors: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }],
+      };
+    }
+  }
+
+  const structureErrors = validateNavbarConfig(config);
+
+  // Names are resolved even when the structure is invalid, so every problem is reported at once.
+  // Malformed values were reported by validateNavbarConfig and are skipped here.
+  const { items, theme, animation, features } = (isObject(config) ? config : {}) as Partial<NavbarConfig>;
+  const reporter = createReporter();
+
+  const resolveAction = (name: string | undefined, path: string, params: NavbarConfigParams | undefined, itemId: string) => {
+    if (!isName(name)) return undefined;
+    const action = hasOwn(actions, name) ? actions[name] : undefined;
+    if (!action) {
+      reporter.report(path, `Unknown action "${name}". Available actions: ${Object.keys(actions).join(', ') || 'none'}`);
+      return undefined;
+    }
+    return () => action(params, itemId);
+  };
+
+  const resolveIcon = (icon: NavbarConfigIcon, path: string): NavItemIcon => {
+    if (!isObject(icon)) return icon;
+
+    if (icon.type === 'asset') {
+      if (isName(icon.key) && !hasOwn(assets, icon.key)) {
+        reporter.report(`${path}.key`, `Unknown asset "${icon.key}". Available assets: ${Object.keys(assets).join(', ') || 'none'}`);
+      }
+      return assets[icon.key];
+    }
+
+    if (icon.type === 'vector' && isName(icon.family) && !hasIconFamily(icon.family)) {
+      reporter.report(
+        `${path}.family`,
+        `Unknown icon family "${icon.family}". Register it with registerIconFamily or install react-native-vector-icons`
+      );
+    }
+    return { type: 'vector', family: icon.family as Extract<NavItemIcon, { type: 'vector' }>['family'], name: icon.name, size: icon.size };
+  };
+
+  const navItems = (Array.isArray(items) ? items : []).flatMap((item, index): NavItem[] => {
+    if (!isObject(item)) return [];
+
+    const path = `items[${index}]`;
+    const { action, reselectAction, longPressAction, doubleTapAction, disabledPressAction, params, ...fields } = item;
+
+    const itemActions = Array.isArray(item.actions) ? item.actions.flatMap((child, childIndex): NavItemAction[] => {
+      if (!isObject(child)) return [];
+
+      const childPath = `${path}.actions[${childIndex}]`;
+      return [{
+        id: child.id,
+        label: child.label,
+        icon: resolveIcon(child.icon, `${childPath}.icon`),
+        onPress: resolveAction(child.action, `${childPath}.action`, child.params, child.id) ?? (() => {}),
+        accessibilityLabel: child.accessibilityLabel,
+        color: child.color,
+      }];
+    }) : undefined;
+
+    return [{
+      ...fields,
+      icon: resolveIcon(item.icon, `${path}.icon`),
+      activeIcon: item.activeIcon ? resolveIcon(item.activeIcon, `${path}.activeIcon`) : undefined,
+      actions: itemActions,
+      onPress: resolveAction(action, `${path}.action`, params, item.id) ?? (() => {}),
+      onReselect: resolveAction(reselectAction, `${path}.reselectAction`, params, item.id),
+      onLongPress: resolveAction(longPressAction, `${path}.longPressAction`, params, item.id),
+      onDoubleTap: resolveAction(doubleTapAction, `${path}.doubleTapAction`, params, item.id),
+      onDisabledPress: resolveAction(disabledPressAction, `${path}.disabledPressAction`, params, item.id),
+    }];
+  });
+
+  const errors = [...structureErrors, ...reporter.errors];
+  if (errors.length > 0) {
+    return { ok: false, props: null, errors };
+  }
+
+  return {
+    ok: true,
+    props: {
+      ...features,
+      items: navItems,
+      theme,
+      animation,
+    },
+    errors: [],
+  };
+};
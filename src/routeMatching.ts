@@ -0,0 +1,144 @@
+/**
+ * Route pattern matching for resolving the active item from a path
+ *
+ * Pattern syntax:
+ * - '/orders'          exact path (trailing slash, query and hash ignored)
+ * - '/orders/*'        prefix: '/orders' and anything below it
+ * - '/orders/:id'      named param, matches exactly one segment
+ * - '/orders/:id/*'    params and prefix combined
+ * - (path) => boolean  predicate, lowest priority
+ *
+ * When several items match, the most specific pattern wins:
+ * more matched segments, then more static segments, then exact over prefix.
+ * Predicates only win when no string pattern matches. Remaining ties go to
+ * the first item in `items` order.
+ */
+
+import type { NavItem } from './DynamicNavbar';
+import { warnOnce } from './devWarnings';
+
+/**
+ * A single match rule: pattern string or predicate
+ */
+export type NavItemMatcher = string | ((path: string) => boolean);
+
+/**
+ * Specificity of a successful match, compared field by field
+ */
+interface MatchScore {
+  segments: number;
+  staticSegments: number;
+  exact: number;
+}
+
+const NO_SPECIFICITY: MatchScore = { segments: -1, staticSegments: -1, exact: -1 };
+
+const splitPath = (path: string): string[] => {
+  const withoutQuery = path.split(/[?#]/)[0];
+  return withoutQuery.split('/').filter(segment => segment.length > 0);
+};
+
+const compareScores = (a: MatchScore, b: MatchScore): number => (
+  a.segments - b.segments
+  || a.staticSegments - b.staticSegments
+  || a.exact - b.exact
+);
+
+/**
+ * Match a single pattern string against a path.
+ * Returns the match specificity, or null when it does not match.
+ */
+const scorePattern = (pattern: string, pathSegments: string[]): MatchScore | null => {
+  const patternSegments = splitPath(pattern);
+  const isPrefix = patternSegments[patternSegments.length - 1] === '*';
+  const segments = isPrefix ? patternSegments.slice(0, -1) : patternSegments;
+
+  if (isPrefix ? pathSegments.length < segments.length : pathSegments.length !== segments.length) {
+    return null;
+  }
+
+  let staticSegments = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.startsWith(':')) continue;
+    if (segment !== pathSegments[i]) return null;
+    staticSegments++;
+  }
+
+  return {
+    segments: segments.length,
+    staticSegments,
+    exact: isPrefix ? 0 : 1,
+  };
+};
+
+/**
+ * Check whether a path matches a pattern or predicate
+ */
+export const matchPath = (matcher: NavItemMatcher, path: string): boolean => {
+  if (typeof matcher === 'function') {
+    return matcher(path);
+  }
+  return scorePattern(matcher, splitPath(path)) !== null;
+};
+
+/**
+ * Best score of an item's matchers for the path, or null if none match
+ */
+const scoreItem = (item: NavItem, pathSegments: string[], path: string): MatchScore | null => {
+  if (item.match === undefined || item.visible === false) return null;
+
+  const matchers = Array.isArray(item.match) ? item.match : [item.match];
+  let best: MatchScore | null = null;
+
+  matchers.forEach(matcher => {
+    const score = typeof matcher === 'function'
+      ? (matcher(path) ? NO_SPECIFICITY : null)
+      : scorePattern(matcher, pathSegments);
+
+    if (score && (!best || compareScores(score, best) > 0)) {
+      best = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Resolve the id of the item whose match patterns best fit the path.
+ * Returns undefined when no item matches.
+ */
+export const resolveActiveItemId = (
+  items: NavItem[],
+  path: string
+): string | undefined => {
+  const pathSegments = splitPath(path);
+  let bestId: string | undefined;
+  let bestScore: MatchScore | null = null;
+  let tiedIds: string[] = [];
+
+  items.forEach(item => {
+    const score = scoreItem(item, pathSegments, path);
+    if (!score) return;
+
+    const comparison = bestScore ? compareScores(score, bestScore) : 1;
+    if (comparison > 0) {
+      bestId = item.id;
+      bestScore = score;
+      tiedIds = [item.id];
+    } else if (comparison === 0) {
+      tiedIds.push(item.id);
+    }
+  });
+
+  if (__DEV__ && tiedIds.length > 1) {
+    warnOnce(
+      `ambiguousPath:${path}|${tiedIds.join(',')}`,
+      `Path "${path}" matches items ${tiedIds.map(id => `"${id}"`).join(', ')} ` +
+      `with equal specificity. Using "${bestId}" (first in items order); ` +
+      'make the match patterns more specific to avoid the overlap.'
+    );
+  }
+
+  return bestId;
+};
@@ -0,0 +1,33 @@
+/**
+ * Safe area insets
+ * Reads insets from react-native-safe-area-context when it is installed,
+ * without making it a required dependency
+ */
+
+import React, { useContext } from 'react';
+
+/**
+ * Safe area insets in px
+ */
+export interface NavbarInsets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Optional integration: resolved once at load time
+let SafeAreaInsetsContext: React.Context<NavbarInsets | null> | null = null;
+try {
+  SafeAreaInsetsContext = require('react-native-safe-area-context').SafeAreaInsetsContext ?? null;
+} catch {
+  // react-native-safe-area-context is not installed
+}
+
+const NoSafeAreaContext = React.createContext<NavbarInsets | null>(null);
+
+/**
+ * Insets from the nearest SafeAreaProvider, or null when unavailable
+ */
+export const useSafeAreaContextInsets = (): NavbarInsets | null =>
+  useContext(SafeAreaInsetsContext ?? NoSafeAreaContext);
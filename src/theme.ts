@@ -0,0 +1,402 @@
+/**
+ * Navbar theme tokens
+ * Built-in presets ('default' and 'glass') plus support for custom theme
+ * objects that extend a preset and override any subset of tokens
+ */
+
+import { Platform, TextStyle } from 'react-native';
+
+// Default colors
+export const DEFAULT_COLORS = {
+  gold: '#FF9500',
+  goldText: '#FFB340',
+  midnightBlue: '#1C1C1E',
+  textSecondary: '#B8B8C8',
+  badge: '#FF3B30',
+  badgeText: '#FFFFFF',
+};
+
+// Default typography
+export const DEFAULT_TYPOGRAPHY: { ui: { small: TextStyle } } = {
+  ui: {
+    small: {
+      fontSize: 12,
+      fontWeight: '400',
+      letterSpacing: 0,
+      lineHeight: 18,
+    },
+  },
+};
+
+/**
+ * Named theme presets
+ * - 'default': Original dark translucent style
+ * - 'glass': Glassmorphism/frosted crystal effect (like Canva)
+ */
+export type NavbarThemePreset = 'default' | 'glass';
+
+/**
+ * Colour scheme of the resolved theme
+ */
+export type NavbarColorScheme = 'light' | 'dark';
+
+/**
+ * Colour scheme preference: fixed, or 'system' to follow useColorScheme()
+ */
+export type NavbarColorSchemePreference = NavbarColorScheme | 'system';
+
+/**
+ * Colour tokens for icons, labels and indicators
+ */
+export interface NavbarThemeColors {
+  icon: string;
+  iconActive: string;
+  label: string;
+  labelActive: string;
+  /** Active indicator colour */
+  indicator: string;
+  /** Fill of the sliding 'pill' and 'highlight' indicators */
+  indicatorFill: string;
+  /** Press glow colour */
+  glow: string;
+  /** Background of the special (center) button */
+  specialButton: string;
+  /** Icon colour on the special button */
+  specialIcon: string;
+  /** Label colour of the special item */
+  specialLabel: string;
+  badge: string;
+  badgeText: string;
+}
+
+/**
+ * Background layer tokens
+ */
+export interface NavbarThemeBackground {
+  /** Base material colour of the container */
+  base: string;
+  /** Overlay drawn on top of the base (saturation/frost simulation) */
+  overlay: string;
+  /** Overlay drawn on top of a real BlurComponent */
+  blurOverlay: string;
+  /** Fallback colour when the OS reduces transparency */
+  blurFallback: string;
+  /** Extra frost layers, drawn in order */
+  frostLayers: string[];
+  /** Specular highlight along the edge facing the content (null to disable) */
+  specularHighlight: string | null;
+}
+
+/**
+ * Container shadow tokens. The offset is a magnitude; its sign follows position.
+ */
+export interface NavbarThemeShadow {
+  color: string;
+  offset: number;
+  opacity: number;
+  radius: number;
+  elevation: number;
+}
+
+/**
+ * Border tokens. Top/bottom borders are only drawn on the edge that is not
+ * attached to the screen edge (top border for a bottom bar and vice versa).
+ */
+export interface NavbarThemeBorder {
+  topWidth: number;
+  topColor: string;
+  bottomWidth: number;
+  bottomColor: string;
+  sideWidth: number;
+  sideColor: string;
+}
+
+/**
+ * Label typography tokens
+ */
+export interface NavbarThemeTypography {
+  label: TextStyle;
+  labelActive: TextStyle;
+  labelSpecial: TextStyle;
+}
+
+/**
+ * Fully resolved theme tokens
+ */
+export interface NavbarThemeTokens {
+  /** Preset the theme is based on; drives blur support, glow default and indicator shape */
+  base: NavbarThemePreset;
+  colors: NavbarThemeColors;
+  background: NavbarThemeBackground;
+  shadow: NavbarThemeShadow;
+  border: NavbarThemeBorder;
+  typography: NavbarThemeTypography;
+}
+
+/**
+ * Custom theme object: extends a preset and overrides any tokens
+ */
+export interface NavbarThemeConfig {
+  /** Preset to extend (default: 'default') */
+  extends?: NavbarThemePreset;
+  colors?: Partial<NavbarThemeColors>;
+  background?: Partial<NavbarThemeBackground>;
+  shadow?: Partial<NavbarThemeShadow>;
+  border?: Partial<NavbarThemeBorder>;
+  typography?: Partial<NavbarThemeTypography>;
+}
+
+/**
+ * Theme variants for the navbar: a named preset or a custom theme object
+ */
+export type NavbarTheme = NavbarThemePreset | NavbarThemeConfig;
+
+const labelTypography: NavbarThemeTypography = {
+  label: {
+    ...DEFAULT_TYPOGRAPHY.ui.small,
+    fontSize: 11,
+  },
+  labelActive: {
+    fontWeight: '600',
+  },
+  labelSpecial: {
+    fontWeight: '600',
+  },
+};
+
+const sharedColors = {
+  icon: DEFAULT_COLORS.textSecondary,
+  iconActive: DEFAULT_COLORS.goldText,
+  label: DEFAULT_COLORS.textSecondary,
+  labelActive: DEFAULT_COLORS.goldText,
+  specialButton: DEFAULT_COLORS.gold,
+  specialIcon: DEFAULT_COLORS.midnightBlue,
+  specialLabel: DEFAULT_COLORS.midnightBlue,
+  badge: DEFAULT_COLORS.badge,
+  badgeText: DEFAULT_COLORS.badgeText,
+};
+
+/**
+ * Built-in presets (dark variants)
+ */
+export const NAVBAR_THEMES: Record<NavbarThemePreset, NavbarThemeTokens> = {
+  default: {
+    base: 'default',
+    colors: {
+      ...sharedColors,
+      indicator: DEFAULT_COLORS.gold,
+      indicatorFill: 'rgba(255, 149, 0, 0.18)',
+      glow: 'rgba(255, 149, 0, 0.4)',
+    },
+    background: {
+      base: 'rgba(10, 7, 25, 0.65)',
+      overlay: 'rgba(255, 255, 255, 0.03)',
+      blurOverlay: 'rgba(20, 20, 30, 0.3)',
+      blurFallback: 'rgba(255, 255, 255, 0.3)',
+      frostLayers: [],
+      specularHighlight: null,
+    },
+    shadow: {
+      color: 'rgba(0, 0, 0, 0.4)',
+      offset: 4,
+      opacity: 0.3,
+      radius: 16,
+      elevation: 12,
+    },
+    border: {
+      topWidth: 0,
+      topColor: 'transparent',
+      bottomWidth: 0,
+      bottomColor: 'transparent',
+      sideWidth: 0,
+      sideColor: 'transparent',
+    },
+    typography: labelTypography,
+  },
+  // Liquid Glass theme (Apple's professional-grade glassmorphism)
+  // 4-Layer Stack: Base Material + Specular Edge + Physical Shadow + Variable Border
+  glass: {
+    base: 'glass',
+    colors: {
+      ...sharedColors,
+      indicator: 'rgba(255, 255, 255, 0.2)',
+      indicatorFill: 'rgba(255, 255, 255, 0.14)',
+      glow: 'rgba(255, 255, 255, 0.5)',
+    },
+    background: {
+      // Layer 1: Base Material - darker for better contrast
+      base: Platform.select({
+        ios: 'rgba(30, 30, 40, 0.5)',
+        default: 'rgba(30, 30, 40, 0.55)',
+      }),
+      // Enhanced saturation simulation layer
+      overlay: Platform.select({
+        ios: 'rgba(255, 255, 255, 0.1)',
+        default: 'rgba(255, 255, 255, 0.08)',
+      }),
+      blurOverlay: 'rgba(20, 20, 30, 0.3)',
+      blurFallback: 'rgba(255, 255, 255, 0.3)',
+      frostLayers: [
+        // Base frost for diffusion
+        'rgba(255, 255, 255, 0.05)',
+        // Saturation boost - cool blue tint for color vibrancy (simulates CSS saturate)
+        Platform.select({
+          ios: 'rgba(100, 120, 255, 0.035)',
+          default: 'rgba(100, 120, 255, 0.03)',
+        }),
+        // Additional white frost for depth
+        Platform.select({
+          ios: 'rgba(255, 255, 255, 0.03)',
+          default: 'rgba(255, 255, 255, 0.025)',
+        }),
+      ],
+      // Layer 2: Specular Highlight - edge light catch (Apple's signature detail)
+      specularHighlight: 'rgba(255, 255, 255, 0.25)',
+    },
+    // Layer 3: Physical Shadow - soft, diffused, long (Apple standard)
+    shadow: {
+      color: '#000',
+      offset: 12,
+      opacity: 0.08, // Much softer diffusion
+      radius: 40, // Larger spread
+      elevation: 24,
+    },
+    // Layer 4: Variable Border - bright on top (light catch), subtle on bottom
+    border: {
+      topWidth: 1.5,
+      topColor: 'rgba(255, 255, 255, 0.4)', // Bright specular edge
+      bottomWidth: 1,
+      bottomColor: 'rgba(255, 255, 255, 0.1)', // Subtle bottom
+      sideWidth: 0.5,
+      sideColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    typography: labelTypography,
+  },
+};
+
+const lightColors = {
+  icon: '#6E6E7A',
+  iconActive: '#D97B00',
+  label: '#6E6E7A',
+  labelActive: '#D97B00',
+  specialButton: DEFAULT_COLORS.gold,
+  specialIcon: DEFAULT_COLORS.midnightBlue,
+  specialLabel: DEFAULT_COLORS.midnightBlue,
+  badge: DEFAULT_COLORS.badge,
+  badgeText: DEFAULT_COLORS.badgeText,
+};
+
+/**
+ * Built-in presets (light variants)
+ */
+export const NAVBAR_LIGHT_THEMES: Record<NavbarThemePreset, NavbarThemeTokens> = {
+  default: {
+    base: 'default',
+    colors: {
+      ...lightColors,
+      indicator: DEFAULT_COLORS.gold,
+      indicatorFill: 'rgba(255, 149, 0, 0.15)',
+      glow: 'rgba(255, 149, 0, 0.25)',
+    },
+    background: {
+      base: 'rgba(250, 250, 252, 0.9)',
+      overlay: 'rgba(0, 0, 0, 0.02)',
+      blurOverlay: 'rgba(255, 255, 255, 0.3)',
+      blurFallback: 'rgba(250, 250, 252, 0.95)',
+      frostLayers: [],
+      specularHighlight: null,
+    },
+    shadow: {
+      color: 'rgba(0, 0, 0, 0.15)',
+      offset: 4,
+      opacity: 0.15,
+      radius: 16,
+      elevation: 8,
+    },
+    border: {
+      topWidth: 0,
+      topColor: 'transparent',
+      bottomWidth: 0,
+      bottomColor: 'transparent',
+      sideWidth: 0,
+      sideColor: 'transparent',
+    },
+    typography: labelTypography,
+  },
+  // Light Liquid Glass: bright base material with darker hairline edges
+  glass: {
+    base: 'glass',
+    colors: {
+      ...lightColors,
+      indicator: 'rgba(0, 0, 0, 0.15)',
+      indicatorFill: 'rgba(0, 0, 0, 0.06)',
+      glow: 'rgba(0, 0, 0, 0.08)',
+    },
+    background: {
+      base: Platform.select({
+        ios: 'rgba(255, 255, 255, 0.55)',
+        default: 'rgba(255, 255, 255, 0.65)',
+      }),
+      overlay: Platform.select({
+        ios: 'rgba(255, 255, 255, 0.25)',
+        default: 'rgba(255, 255, 255, 0.2)',
+      }),
+      blurOverlay: 'rgba(255, 255, 255, 0.35)',
+      blurFallback: 'rgba(250, 250, 252, 0.9)',
+      frostLayers: [
+        'rgba(255, 255, 255, 0.1)',
+        Platform.select({
+          ios: 'rgba(100, 120, 255, 0.03)',
+          default: 'rgba(100, 120, 255, 0.025)',
+        }),
+      ],
+      specularHighlight: 'rgba(255, 255, 255, 0.8)',
+    },
+    shadow: {
+      color: '#000',
+      offset: 12,
+      opacity: 0.1,
+      radius: 40,
+      elevation: 16,
+    },
+    border: {
+      topWidth: 1,
+      topColor: 'rgba(255, 255, 255, 0.9)',
+      bottomWidth: 1,
+      bottomColor: 'rgba(0, 0, 0, 0.06)',
+      sideWidth: 0.5,
+      sideColor: 'rgba(0, 0, 0, 0.05)',
+    },
+    typography: labelTypography,
+  },
+};
+
+/**
+ * Resolve a theme prop (preset name or custom theme object) into full tokens
+ * for the given colour scheme (default: 'dark')
+ */
+export const resolveNavbarTheme = (
+  theme: NavbarTheme,
+  colorScheme: NavbarColorScheme = 'dark'
+): NavbarThemeTokens => {
+  const presets = colorScheme === 'light' ? NAVBAR_LIGHT_THEMES : NAVBAR_THEMES;
+
+  if (typeof theme === 'string') {
+    return presets[theme] ?? presets.default;
+  }
+
+  const preset = presets[theme.extends ?? 'default'] ?? presets.default;
+
+  return {
+    base: preset.base,
+    colors: { ...preset.colors, ...theme.colors },
+    background: { ...preset.background, ...theme.background },
+    shadow: { ...preset.shadow, ...theme.shadow },
+    border: { ...preset.border, ...theme.border },
+    typography: {
+      label: { ...preset.typography.label, ...theme.typography?.label },
+      labelActive: { ...preset.typography.labelActive, ...theme.typography?.labelActive },
+      labelSpecial: { ...preset.typography.labelSpecial, ...theme.typography?.labelSpecial },
+    },
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Open/close transition for the navbar's modal menus
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Animated } from 'react-native';
+import { NAVBAR_ANIMATIONS, NavbarPhaseAnimation, animatePhase } from './animation';
+
+/**
+ * Animate a menu open and closed with the given phase, keeping it mounted until the close animation has finished.
+ * Used internally by MoreMenu and ActionMenu.
+ */
+export const useMenuTransition = (
+  visible: boolean,
+  animation: NavbarPhaseAnimation,
+  reduceMotion: boolean
+): { openAnim: Animated.Value; isMounted: boolean } => {
+  const openAnim = useRef(new Animated.Value(0)).current;
+  const [isMounted, setIsMounted] = useState(visible);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+    }
+
+    const phase = reduceMotion ? NAVBAR_ANIMATIONS.none.activeChange : animation;
+    animatePhase(openAnim, visible ? 1 : 0, phase).start(({ finished }) => {
+      if (finished && !visible) {
+        setIsMounted(false);
+      }
+    });
+  }, [visible, animation, reduceMotion, openAnim]);
+
+  return { openAnim, isMounted };
+};
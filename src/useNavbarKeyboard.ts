@@ -0,0 +1,138 @@
+/**
+ * Keyboard handling
+ * Moves a bottom navbar out of the way (or above the keyboard) while the keyboard is open
+ */
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Animated, Easing, Keyboard, KeyboardEvent, Platform } from 'react-native';
+
+/**
+ * What the navbar does while the keyboard is open
+ * - 'hide': slide out and give its space to the screen
+ * - 'behind': slide down behind the keyboard, keeping its space
+ * - 'above': stay visible on top of the keyboard
+ */
+export type NavbarKeyboardMode = 'hide' | 'behind' | 'above';
+
+// Screens currently suppressing keyboard handling
+let suppressionCount = 0;
+const suppressionListeners = new Set<() => void>();
+
+const subscribeSuppression = (listener: () => void) => {
+  suppressionListeners.add(listener);
+  return () => {
+    suppressionListeners.delete(listener);
+  };
+};
+
+const getIsSuppressed = () => suppressionCount > 0;
+
+/**
+ * Turn off navbar keyboard handling while the calling screen is mounted and `active`
+ * (e.g. pass `useIsFocused()` so it only applies while the screen is focused)
+ *
+ * @example
+ * function ComposeScreen() {
+ *   useNavbarKeyboardSuppression(useIsFocused());
+ * }
+ */
+export const useNavbarKeyboardSuppression = (active: boolean = true): void => {
+  useEffect(() => {
+    if (!active) return undefined;
+
+    suppressionCount++;
+    suppressionListeners.forEach(listener => listener());
+    return () => {
+      suppressionCount--;
+      suppressionListeners.forEach(listener => listener());
+    };
+  }, [active]);
+};
+
+// iOS reports the keyboard before it animates; Android only after it has appeared
+const SHOW_EVENT = Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow';
+const HIDE_EVENT = Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide';
+
+/**
+ * Track the keyboard and return the navbar's offset, opacity and collapsed state.
+ * Used internally by DynamicNavbar.
+ */
+export const useKeyboardHide = ({
+  enabled,
+  mode,
+  distance,
+  bottomInset,
+  reduceMotion,
+}: {
+  enabled: boolean;
+  mode: NavbarKeyboardMode;
+  /** Distance to move the bar to hide it fully */
+  distance: number;
+  /** Safe area padding under the bar; the keyboard already covers that area */
+  bottomInset: number;
+  reduceMotion: boolean;
+}): { translateY: Animated.Value; opacity: Animated.Value; isCollapsed: boolean } => {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const opacity = useRef(new Animated.Value(1)).current;
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const isSuppressed = useSyncExternalStore(subscribeSuppression, getIsSuppressed, getIsSuppressed);
+  const isActive = enabled && !isSuppressed;
+
+  useEffect(() => {
+    if (!isActive) return undefined;
+
+    const animate = (toTranslate: number, toOpacity: number, event?: KeyboardEvent, onEnd?: () => void) => {
+      const duration = reduceMotion ? 0 : event?.duration || 250;
+      Animated.parallel([
+        Animated.timing(translateY, {
+          toValue: toTranslate,
+          duration,
+          easing: Easing.bezier(0.16, 1, 0.3, 1),
+          useNativeDriver: false,
+        }),
+        Animated.timing(opacity, {
+          toValue: toOpacity,
+          duration,
+          easing: Easing.bezier(0.16, 1, 0.3, 1),
+          useNativeDriver: false,
+        }),
+      ]).start(({ finished }) => {
+        if (finished) onEnd?.();
+      });
+    };
+
+    const showSubscription = Keyboard.addListener(SHOW_EVENT, event => {
+      switch (mode) {
+        case 'hide':
+          animate(distance, 0, event, () => setIsCollapsed(true));
+          break;
+        case 'behind':
+          // iOS keyboards already cover the bar; Android resizes the window and pushes it up
+          if (Platform.OS === 'android') animate(distance, 1, event);
+          break;
+        case 'above':
+          // Android already lays the bar out above the keyboard
+          if (Platform.OS === 'ios') {
+            animate(-Math.max(event.endCoordinates.height - bottomInset, 0), 1, event);
+          }
+          break;
+      }
+    });
+
+    const hideSubscription = Keyboard.addListener(HIDE_EVENT, event => {
+      setIsCollapsed(false);
+      animate(0, 1, event);
+    });
+
+    return () => {
+      showSubscription.remove();
+      hideSubscription.remove();
+      // Leave the bar visible when handling is turned off or suppressed mid-way
+      translateY.setValue(0);
+      opacity.setValue(1);
+      setIsCollapsed(false);
+    };
+  }, [isActive, mode, distance, bottomInset, reduceMotion, translateY, opacity]);
+
+  return { translateY, opacity, isCollapsed };
+};
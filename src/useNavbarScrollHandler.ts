@@ -0,0 +1,168 @@
+/**
+ * Hide-on-scroll support
+ * Slides the navbar off-screen while scrolling down and back on scroll up
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Animated, NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
+import { NAVBAR_ANIMATIONS, NavbarPhaseAnimation, animatePhase } from './animation';
+
+/**
+ * Hide-on-scroll behaviour options
+ */
+export interface NavbarScrollOptions {
+  /** Distance (px) scrolled in one direction before the bar starts moving (default 8) */
+  threshold?: number;
+  /** Snap fully shown/hidden when scrolling stops (default true) */
+  snap?: boolean;
+  /** Height (px) of the bar that stays visible when hidden (default 0) */
+  minReveal?: number;
+}
+
+/**
+ * Controller returned by useNavbarScrollHandler.
+ * Pass `onScroll` to your ScrollView/FlatList and the controller to `scrollController`.
+ */
+export interface NavbarScrollController {
+  /** Scroll offset, driven by `onScroll` */
+  scrollY: Animated.Value;
+  /** Scroll handler for ScrollView/FlatList `onScroll` */
+  onScroll: (event: NativeSyntheticEvent<NativeScrollEvent>) => void;
+  /** Force the navbar visible */
+  show: () => void;
+  /** Force the navbar hidden */
+  hide: () => void;
+  options: NavbarScrollOptions;
+  /** @internal Used by DynamicNavbar to receive show()/hide() calls */
+  subscribe: (listener: (visible: boolean) => void) => () => void;
+}
+
+/**
+ * Create a scroll handler that drives the navbar's hide-on-scroll behaviour
+ *
+ * @example
+ * const navbarScroll = useNavbarScrollHandler({ threshold: 12 });
+ * <FlatList onScroll={navbarScroll.onScroll} scrollEventThrottle={16} />
+ * <DynamicNavbar scrollController={navbarScroll} />
+ */
+export const useNavbarScrollHandler = (
+  options: NavbarScrollOptions = {}
+): NavbarScrollController => {
+  const scrollY = useRef(new Animated.Value(0)).current;
+  const listeners = useRef(new Set<(visible: boolean) => void>()).current;
+  const { threshold, snap, minReveal } = options;
+
+  return useMemo(() => ({
+    scrollY,
+    onScroll: Animated.event(
+      [{ nativeEvent: { contentOffset: { y: scrollY } } }],
+      // Read on the JS side to track scroll direction
+      { useNativeDriver: false }
+    ),
+    show: () => listeners.forEach(listener => listener(true)),
+    hide: () => listeners.forEach(listener => listener(false)),
+    options: { threshold, snap, minReveal },
+    subscribe: (listener: (visible: boolean) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  }), [scrollY, listeners, threshold, snap, minReveal]);
+};
+
+// Delay after the last scroll event before snapping
+const SNAP_DELAY = 150;
+
+/**
+ * Track a scroll value and return the navbar's translateY.
+ * Used internally by DynamicNavbar.
+ */
+export const useScrollHide = ({
+  scrollY,
+  options,
+  distance,
+  position,
+  animation,
+  reduceMotion,
+}: {
+  scrollY?: Animated.Value;
+  options: NavbarScrollOptions;
+  /** Distance to move the bar to hide it fully */
+  distance: number;
+  position: 'top' | 'bottom';
+  /** Phase for showing and hiding */
+  animation: NavbarPhaseAnimation;
+  reduceMotion: boolean;
+}): { translateY: Animated.Value; setVisible: (visible: boolean) => void } => {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const offset = useRef(0);
+  const lastY = useRef<number | null>(null);
+  const travelled = useRef(0);
+  const snapTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const threshold = options.threshold ?? 8;
+  const snap = options.snap ?? true;
+  const maxOffset = Math.max(distance - (options.minReveal ?? 0), 0);
+  // Bottom bars move down, top bars move up
+  const sign = position === 'bottom' ? 1 : -1;
+
+  const animateTo = useCallback((target: number) => {
+    offset.current = target;
+    const phase = reduceMotion ? NAVBAR_ANIMATIONS.none.activeChange : animation;
+    animatePhase(translateY, target * sign, phase, false).start();
+  }, [translateY, sign, animation, reduceMotion]);
+
+  const setVisible = useCallback((visible: boolean) => {
+    travelled.current = 0;
+    animateTo(visible ? 0 : maxOffset);
+  }, [animateTo, maxOffset]);
+
+  useEffect(() => {
+    if (!scrollY) return undefined;
+
+    const listenerId = scrollY.addListener(({ value }) => {
+      const previous = lastY.current;
+      lastY.current = value;
+      if (previous === null) return;
+
+      const delta = value - previous;
+      if (delta === 0) return;
+
+      // Always show at the top of the content (including overscroll bounce)
+      if (value <= 0) {
+        travelled.current = 0;
+        if (offset.current !== 0) animateTo(0);
+        return;
+      }
+
+      // Ignore small movements until the threshold is crossed in one direction
+      if (Math.sign(delta) !== Math.sign(travelled.current)) {
+        travelled.current = 0;
+      }
+      travelled.current += delta;
+      if (Math.abs(travelled.current) < threshold) return;
+
+      const next = Math.min(Math.max(offset.current + delta, 0), maxOffset);
+      if (next !== offset.current) {
+        offset.current = next;
+        translateY.stopAnimation();
+        translateY.setValue(next * sign);
+      }
+
+      if (snap) {
+        if (snapTimer.current) clearTimeout(snapTimer.current);
+        snapTimer.current = setTimeout(() => {
+          animateTo(offset.current > maxOffset / 2 ? maxOffset : 0);
+        }, SNAP_DELAY);
+      }
+    });
+
+    return () => {
+      scrollY.removeListener(listenerId);
+      if (snapTimer.current) clearTimeout(snapTimer.current);
+    };
+  }, [scrollY, threshold, snap, maxOffset, sign, translateY, animateTo]);
+
+  return { translateY, setVisible };
+};
@@ -0,0 +1,131 @@
+/**
+ * Development-time prop validation
+ * Reports common mistakes once per distinct problem; compiled out of production builds
+ */
+
+import { useEffect } from 'react';
+import type { NavItem } from './DynamicNavbar';
+import { warnOnce } from './devWarnings';
+
+const formatIds = (ids: string[]) => ids.map(id => `"${id}"`).join(', ');
+
+interface NavbarValidationInput {
+  items: NavItem[];
+  /** Items left after visibility is applied */
+  visibleItemCount: number;
+  activeItemId?: string;
+  defaultActiveItemId?: string;
+  hasBlurComponent: boolean;
+  isGlassTheme: boolean;
+  blurIntensity: number;
+}
+
+/**
+ * Check navbar props and warn about mistakes that would otherwise fail silently
+ */
+const validateNavbarProps = ({
+  items,
+  visibleItemCount,
+  activeItemId,
+  defaultActiveItemId,
+  hasBlurComponent,
+  isGlassTheme,
+  blurIntensity,
+}: NavbarValidationInput): void => {
+  const seenIds = new Set<string>();
+  const duplicateIds = new Set<string>();
+  items.forEach(item => {
+    if (seenIds.has(item.id)) duplicateIds.add(item.id);
+    seenIds.add(item.id);
+  });
+  if (duplicateIds.size > 0) {
+    const ids = formatIds([...duplicateIds]);
+    warnOnce(
+      `duplicate:${ids}`,
+      `Duplicate item ids ${ids}. Ids are used as React keys and to track the active item, so each must be unique.`
+    );
+  }
+
+  if (activeItemId !== undefined && !seenIds.has(activeItemId)) {
+    warnOnce(
+      `activeItemId:${activeItemId}`,
+      `activeItemId "${activeItemId}" does not match any item, so no item is highlighted. ` +
+      `Available ids: ${formatIds([...seenIds]) || 'none'}.`
+    );
+  }
+
+  if (defaultActiveItemId !== undefined && !seenIds.has(defaultActiveItemId)) {
+    warnOnce(
+      `defaultActiveItemId:${defaultActiveItemId}`,
+      `defaultActiveItemId "${defaultActiveItemId}" does not match any item. ` +
+      `Available ids: ${formatIds([...seenIds]) || 'none'}.`
+    );
+  }
+
+  if (hasBlurComponent && !isGlassTheme) {
+    warnOnce(
+      'blurComponent',
+      'BlurComponent is only used with the glass theme and is ignored otherwise. ' +
+      "Pass theme=\"glass\" (or a custom theme that extends 'glass') to enable real blur."
+    );
+  }
+
+  if (!(blurIntensity >= 0 && blurIntensity <= 100)) {
+    warnOnce(
+      `blurIntensity:${blurIntensity}`,
+      `blurIntensity should be between 0 and 100, got ${blurIntensity}.`
+    );
+  }
+
+  const specialIds = items.filter(item => item.isSpecial).map(item => item.id);
+  if (specialIds.length > 1) {
+    const ids = formatIds(specialIds);
+    warnOnce(
+      `special:${ids}`,
+      `More than one item is marked isSpecial (${ids}). The special style is meant for a single primary action.`
+    );
+  }
+
+  if (items.length > 0 && visibleItemCount === 0) {
+    warnOnce('allHidden', 'Every item is hidden, so the navbar is empty.');
+  }
+
+  items.forEach(item => {
+    if (!item.label && !item.accessibilityLabel) {
+      warnOnce(
+        `a11y:${item.id}`,
+        `Item "${item.id}" has no label or accessibilityLabel, so screen readers announce its id. ` +
+        'Add an accessibilityLabel to icon-only items.'
+      );
+    }
+  });
+};
+
+/**
+ * Run validateNavbarProps in development whenever the inputs change.
+ * Used internally by DynamicNavbar.
+ */
+export const useNavbarValidation = (input: NavbarValidationInput): void => {
+  const {
+    items,
+    visibleItemCount,
+    activeItemId,
+    defaultActiveItemId,
+    hasBlurComponent,
+    isGlassTheme,
+    blurIntensity,
+  } = input;
+
+  useEffect(() => {
+    if (!__DEV__) return;
+    validateNavbarProps({
+      items,
+      visibleItemCount,
+      activeItemId,
+      defaultActiveItemId,
+      hasBlurComponent,
+      isGlassTheme,
+      blurIntensity,
+    });
+  }, [items, visibleItemCount, activeItemId, defaultActiveItemId, hasBlurComponent, isGlassTheme, blurIntensity]);
+};